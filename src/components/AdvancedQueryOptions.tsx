@@ -0,0 +1,112 @@
+import { useMemo } from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { DEFAULT_QUERY_THRESHOLD } from '@/services/api';
+import type { QueryOptions, QueryResponse } from '@/types/api';
+
+interface AdvancedQueryOptionsProps {
+  options: QueryOptions;
+  onChange: (options: QueryOptions) => void;
+  // Scores from the last response drive the "would pass" preview
+  lastResults?: QueryResponse | null;
+}
+
+const AdvancedQueryOptions = ({ options, onChange, lastResults }: AdvancedQueryOptionsProps) => {
+  const scores = useMemo(() => (
+    (lastResults?.results ?? [])
+      .map(result => result.similarity)
+      .filter((score): score is number => typeof score === 'number')
+  ), [lastResults]);
+
+  const passing = scores.filter(score => score >= options.threshold).length;
+  const shown = options.max_results ? Math.min(passing, options.max_results) : passing;
+  const customized = options.threshold !== DEFAULT_QUERY_THRESHOLD || options.max_results !== undefined;
+
+  const handleMaxResults = (value: string) => {
+    const parsed = parseInt(value, 10);
+    onChange({ ...options, max_results: Number.isFinite(parsed) && parsed > 0 ? parsed : undefined });
+  };
+
+  return (
+    <Collapsible className="glass rounded-lg p-3">
+      <CollapsibleTrigger asChild>
+        <button className="w-full flex items-center justify-between text-sm font-medium text-foreground">
+          <span className="flex items-center space-x-2">
+            <SlidersHorizontal className="w-4 h-4 text-primary" />
+            <span>Advanced options</span>
+            {customized && (
+              <span className="text-xs text-muted-foreground font-normal">
+                ≥ {options.threshold.toFixed(2)}
+                {options.max_results !== undefined && `, top ${options.max_results}`}
+              </span>
+            )}
+          </span>
+          <ChevronDown className="w-4 h-4" />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-4 space-y-5">
+        {/* Similarity Threshold */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium text-foreground">Similarity threshold</Label>
+            <span className="text-sm font-mono text-primary">{options.threshold.toFixed(2)}</span>
+          </div>
+          <Slider
+            min={0}
+            max={1}
+            step={0.01}
+            value={[options.threshold]}
+            onValueChange={([threshold]) => onChange({ ...options, threshold })}
+          />
+          {/* Last response's scores on the same 0–1 scale as the slider */}
+          {scores.length > 0 && (
+            <div className="relative h-3" aria-hidden>
+              {scores.map((score, index) => (
+                <span
+                  key={index}
+                  className={`absolute top-0 h-3 w-0.5 rounded-full ${score >= options.threshold ? 'bg-success' : 'bg-muted-foreground/40'}`}
+                  style={{ left: `${Math.min(Math.max(score, 0), 1) * 100}%` }}
+                />
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {scores.length === 0
+              ? 'Results scoring below the threshold are left out. Run a query to preview how many would pass.'
+              : `${shown} of the last query's ${scores.length} results would pass` +
+                (shown < passing ? ` (${passing} above the threshold, limited to ${options.max_results})` : '') +
+                '. Lower thresholds can also bring in results the last query did not return.'}
+          </p>
+        </div>
+
+        {/* Result Limit */}
+        <div className="space-y-2">
+          <Label htmlFor="max-results" className="text-sm font-medium text-foreground">Maximum results</Label>
+          <Input
+            id="max-results"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={options.max_results ?? ''}
+            onChange={(e) => handleMaxResults(e.target.value)}
+            className="glass w-32"
+          />
+        </div>
+
+        {customized && (
+          <button
+            onClick={() => onChange({ threshold: DEFAULT_QUERY_THRESHOLD })}
+            className="text-xs text-primary hover:underline"
+          >
+            Reset to defaults
+          </button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default AdvancedQueryOptions;
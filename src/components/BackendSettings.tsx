@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Settings, Server, Plus, Trash2, Pencil, CheckCircle2, XCircle, Loader2, Plug } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useBackendProfiles } from '@/hooks/use-backend-profile';
+import { apiService } from '@/services/api';
+import { DEFAULT_PROFILE_ID } from '@/services/profiles';
+import type { BackendProfile } from '@/types/api';
+
+type ProbeState = 'idle' | 'testing' | 'ok' | 'failed';
+
+const BackendSettings = () => {
+  const { profiles, activeProfile, setActiveProfile, saveProfile, removeProfile } = useBackendProfiles();
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [probe, setProbe] = useState<ProbeState>('idle');
+  const { toast } = useToast();
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setBaseUrl('');
+    setProbe('idle');
+  };
+
+  const startEditing = (profile: BackendProfile) => {
+    setEditingId(profile.id);
+    setName(profile.name);
+    setBaseUrl(profile.baseUrl);
+    setProbe('idle');
+  };
+
+  const isValidUrl = (value: string) => {
+    try {
+      const url = new URL(value);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  };
+
+  const testConnection = async () => {
+    if (!isValidUrl(baseUrl)) return;
+    setProbe('testing');
+    try {
+      await apiService.checkHealth(baseUrl.trim());
+      setProbe('ok');
+    } catch {
+      setProbe('failed');
+    }
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || !isValidUrl(baseUrl)) {
+      toast({
+        title: "Invalid profile",
+        description: "Enter a name and a full http(s) URL",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = saveProfile({ id: editingId ?? undefined, name, baseUrl });
+    toast({
+      title: editingId ? "Profile updated" : "Profile saved",
+      description: `${saved.name} → ${saved.baseUrl}`,
+    });
+    resetForm();
+  };
+
+  const handleSwitch = (profile: BackendProfile) => {
+    setActiveProfile(profile.id);
+    toast({
+      title: "Backend switched",
+      description: `Now using ${profile.name} (${profile.baseUrl})`,
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title={`Backend: ${activeProfile.name}`}>
+          <Settings className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass-strong border-border/50 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Server className="w-5 h-5 text-primary" />
+            <span>Backend Profiles</span>
+          </DialogTitle>
+          <DialogDescription>
+            Save the FastAPI servers you work with and switch between them at any time.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Profile List */}
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeProfile.id;
+            const isDefault = profile.id === DEFAULT_PROFILE_ID;
+
+            return (
+              <div
+                key={profile.id}
+                className={`glass rounded-lg p-3 flex items-center justify-between ${
+                  isActive ? 'border-primary/50 bg-primary/5' : ''
+                }`}
+              >
+                <button
+                  onClick={() => handleSwitch(profile)}
+                  disabled={isActive}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-sm text-foreground truncate">{profile.name}</span>
+                    {isActive && (
+                      <Badge variant="outline" className="text-xs bg-success/10 text-success border-success/30">
+                        Active
+                      </Badge>
+                    )}
+                    {isDefault && (
+                      <Badge variant="outline" className="text-xs">
+                        env
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{profile.baseUrl}</p>
+                </button>
+                {!isDefault && (
+                  <div className="flex items-center space-x-1 ml-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(profile)}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeProfile(profile.id)}
+                      className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Profile Form */}
+        <div className="space-y-3 pt-2 border-t border-border/50">
+          <p className="text-sm font-medium text-foreground">
+            {editingId ? 'Edit profile' : 'Add profile'}
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="profile-name" className="text-xs">Name</Label>
+            <Input
+              id="profile-name"
+              placeholder="Staging"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="glass"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profile-url" className="text-xs">Base URL</Label>
+            <Input
+              id="profile-url"
+              placeholder="https://staging.example.com"
+              value={baseUrl}
+              onChange={(e) => {
+                setBaseUrl(e.target.value);
+                setProbe('idle');
+              }}
+              className="glass"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-xs">
+              {probe === 'ok' && (
+                <span className="flex items-center text-success">
+                  <CheckCircle2 className="w-3 h-3 mr-1" /> Reachable
+                </span>
+              )}
+              {probe === 'failed' && (
+                <span className="flex items-center text-destructive">
+                  <XCircle className="w-3 h-3 mr-1" /> Unreachable
+                </span>
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              {editingId && (
+                <Button variant="ghost" size="sm" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={testConnection}
+                disabled={probe === 'testing' || !isValidUrl(baseUrl)}
+                className="btn-glass"
+              >
+                {probe === 'testing' ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <Plug className="w-4 h-4 mr-1" />
+                )}
+                Test
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                <Plus className="w-4 h-4 mr-1" />
+                {editingId ? 'Update' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackendSettings;
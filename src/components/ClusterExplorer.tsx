@@ -0,0 +1,197 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Network, RefreshCw, Loader2, AlertTriangle, FileText, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { useClusters } from '@/hooks/use-api';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import type { ClusterInfo } from '@/types/api';
+
+interface ClusterExplorerProps {
+  onSearchCluster?: (names: string[]) => void;
+}
+
+const chartConfig: ChartConfig = {
+  size: {
+    label: 'Documents',
+    color: 'hsl(var(--primary))',
+  },
+};
+
+const BAR_HEIGHT = 36;
+
+// Backends may not name clusters, so fall back to their most characteristic terms
+const clusterName = (cluster: ClusterInfo) => (
+  cluster.label || cluster.top_terms.slice(0, 3).map(t => t.term).join(', ') || `Cluster ${cluster.id}`
+);
+
+const ClusterExplorer = ({ onSearchCluster }: ClusterExplorerProps) => {
+  const { data, isFetching: loading, error, refetch } = useClusters();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const showError = useErrorToast();
+
+  const clusters = useMemo(() => data?.clusters ?? [], [data]);
+
+  useEffect(() => {
+    if (error) showError(error, { title: "Failed to load clusters", onRetry: () => refetch() });
+  }, [error, showError, refetch]);
+
+  const chartData = useMemo(() => (
+    [...clusters]
+      .sort((a, b) => b.size - a.size)
+      .map(cluster => ({ id: cluster.id, name: clusterName(cluster), size: cluster.size }))
+  ), [clusters]);
+
+  // Falls back to the first cluster until one is picked, or when the picked one is gone after a refresh
+  const selected = clusters.find(c => c.id === selectedId) ?? clusters[0] ?? null;
+  const maxWeight = Math.max(...(selected?.top_terms.map(t => t.weight) ?? [1]), Number.EPSILON);
+
+  return (
+    <Card className="interactive-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <Network className="w-5 h-5 text-primary" />
+            <span>Cluster Explorer</span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={loading}
+            className="btn-glass"
+          >
+            {loading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            <span className="ml-2 hidden sm:inline">Refresh</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading && clusters.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            <span className="ml-2 text-muted-foreground">Loading clusters...</span>
+          </div>
+        ) : clusters.length === 0 ? (
+          <div className="text-center py-8 space-y-3">
+            <AlertTriangle className="w-12 h-12 mx-auto text-muted-foreground" />
+            <div>
+              <p className="font-medium text-foreground">No clusters yet</p>
+              <p className="text-sm text-muted-foreground">
+                Clusters appear once enough documents have been indexed
+              </p>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Cluster sizes */}
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">Click a cluster to see its documents and top terms</p>
+              <ChartContainer
+                config={chartConfig}
+                className="aspect-auto w-full"
+                style={{ height: Math.max(160, chartData.length * BAR_HEIGHT) }}
+              >
+                <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" dataKey="size" allowDecimals={false} tickLine={false} axisLine={false} />
+                  <YAxis
+                    type="category"
+                    dataKey="name"
+                    width={160}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={(value: string) => (value.length > 24 ? `${value.slice(0, 23)}…` : value)}
+                  />
+                  <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                  <Bar
+                    dataKey="size"
+                    radius={4}
+                    className="cursor-pointer"
+                    onClick={(_, index) => setSelectedId(chartData[index].id)}
+                  >
+                    {chartData.map((entry) => (
+                      <Cell
+                        key={entry.id}
+                        fill="var(--color-size)"
+                        fillOpacity={!selected || entry.id === selected.id ? 1 : 0.35}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            {/* Selected cluster */}
+            {selected && (
+              <div className="glass rounded-lg p-4 space-y-4">
+                <div className="flex items-start justify-between flex-wrap gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{clusterName(selected)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Cluster #{selected.id} • {selected.size} document{selected.size === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  {onSearchCluster && (
+                    <Button
+                      size="sm"
+                      onClick={() => onSearchCluster(selected.documents)}
+                      disabled={selected.documents.length === 0}
+                      className="btn-hero"
+                    >
+                      <Search className="w-4 h-4 mr-2" />
+                      Search this cluster
+                    </Button>
+                  )}
+                </div>
+
+                {selected.top_terms.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {selected.top_terms.map((term) => (
+                      <Badge
+                        key={term.term}
+                        variant="outline"
+                        className="text-xs border-primary/30"
+                        style={{ backgroundColor: `hsl(var(--primary) / ${(0.05 + 0.3 * term.weight / maxWeight).toFixed(2)})` }}
+                        title={`Weight ${term.weight.toFixed(3)}`}
+                      >
+                        {term.term}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <ScrollArea className="h-48 w-full">
+                  <div className="space-y-1 pr-4">
+                    {selected.documents.map((name) => (
+                      <button
+                        key={name}
+                        onClick={() => navigate({ pathname: `/documents/${encodeURIComponent(name)}`, search: location.search })}
+                        className="w-full flex items-center space-x-2 rounded-md px-2 py-1.5 text-left hover:bg-primary/5 transition-colors"
+                      >
+                        <FileText className="w-4 h-4 text-primary flex-shrink-0" />
+                        <span className="text-sm text-foreground truncate">{name}</span>
+                      </button>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClusterExplorer;
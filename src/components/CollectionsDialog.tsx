@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { FolderOpen, Plus, Trash2, Pencil, Check, X, Library } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useLibrary } from '@/hooks/use-library';
+
+const CollectionsDialog = () => {
+  const { collections, createCollection, renameCollection, removeCollection } = useLibrary();
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    createCollection(newName);
+    setNewName('');
+  };
+
+  const handleRename = () => {
+    if (editingId && editingName.trim()) renameCollection(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setEditingId(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="btn-glass">
+          <Library className="w-4 h-4" />
+          <span className="ml-2 hidden sm:inline">Collections</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="glass-strong border-border/50 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FolderOpen className="w-5 h-5 text-primary" />
+            <span>Collections</span>
+          </DialogTitle>
+          <DialogDescription>
+            Group documents into named collections. Add documents from the library table or while uploading.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {collections.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No collections yet</p>
+          )}
+          {collections.map((collection) => (
+            <div key={collection.id} className="glass rounded-lg p-3 flex items-center justify-between">
+              {editingId === collection.id ? (
+                <Input
+                  value={editingName}
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="glass h-8 flex-1"
+                  autoFocus
+                />
+              ) : (
+                <div className="flex items-center space-x-2 flex-1 min-w-0">
+                  <span className="font-medium text-sm text-foreground truncate">{collection.name}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {collection.documents.length} document{collection.documents.length === 1 ? '' : 's'}
+                  </Badge>
+                </div>
+              )}
+              <div className="flex items-center space-x-1 ml-2">
+                {editingId === collection.id ? (
+                  <>
+                    <Button variant="ghost" size="sm" onClick={handleRename} className="h-8 w-8 p-0">
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="h-8 w-8 p-0">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(collection.id);
+                        setEditingName(collection.name);
+                      }}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeCollection(collection.id)}
+                      className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                      title="Delete collection (documents are kept)"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-2 pt-2 border-t border-border/50">
+          <Input
+            placeholder="New collection name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreate();
+            }}
+            className="glass"
+          />
+          <Button size="sm" onClick={handleCreate} disabled={!newName.trim()}>
+            <Plus className="w-4 h-4 mr-1" />
+            Create
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CollectionsDialog;
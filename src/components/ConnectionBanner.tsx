@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Loader2, WifiOff } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useBackendProfiles } from '@/hooks/use-backend-profile';
+import { useCircuitBreaker } from '@/hooks/use-circuit-breaker';
+import { useToast } from '@/hooks/use-toast';
+
+// The one place an unreachable backend is reported; individual request
+// failures stay quiet while this is shown
+const ConnectionBanner = () => {
+  const { open, nextProbeAt, probing, probeNow } = useCircuitBreaker();
+  const { activeProfile } = useBackendProfiles();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [now, setNow] = useState(() => Date.now());
+  const wasOpen = useRef(open);
+
+  // Refetch everything on screen once the backend is back
+  useEffect(() => {
+    if (wasOpen.current && !open) {
+      queryClient.invalidateQueries();
+      toast({
+        title: "Connection restored",
+        description: `${activeProfile.name} is responding again`,
+      });
+    }
+    wasOpen.current = open;
+  }, [open, queryClient, toast, activeProfile.name]);
+
+  // Ticks the countdown to the next /health probe
+  useEffect(() => {
+    if (!open) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open]);
+
+  if (!open) return null;
+
+  const seconds = nextProbeAt ? Math.max(0, Math.ceil((nextProbeAt - now) / 1000)) : 0;
+
+  return (
+    <div className="container mx-auto px-4 pt-4">
+      <Alert variant="destructive" className="glass">
+        <WifiOff className="h-4 w-4" />
+        <AlertTitle>Backend unavailable</AlertTitle>
+        <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <span>
+            {activeProfile.name} ({activeProfile.baseUrl}) is not responding, so requests are paused.{' '}
+            {probing ? 'Checking /health...' : `Checking /health again in ${seconds}s.`}
+          </span>
+          <Button variant="outline" size="sm" onClick={probeNow} disabled={probing} className="btn-glass shrink-0">
+            {probing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Check now
+          </Button>
+        </AlertDescription>
+      </Alert>
+    </div>
+  );
+};
+
+export default ConnectionBanner;
@@ -0,0 +1,367 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Brain,
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  FileText,
+  Filter,
+  GitBranch,
+  Loader2,
+  MessagesSquare,
+  Send,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useRunQuery } from '@/hooks/use-api';
+import { useConversations } from '@/hooks/use-conversations';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { useToast } from '@/hooks/use-toast';
+import { conversationContext, latestLeaf, siblingsOf, threadPath } from '@/lib/conversation';
+import { isCancelledRequest } from '@/services/api';
+import type { ConversationTurn } from '@/types/conversation';
+
+interface ConversationViewProps {
+  conversationId: string;
+  onSelectConversation: (id: string) => void;
+  // Leaves conversation mode and goes back to the one-shot results
+  onExit: () => void;
+}
+
+const ConversationView = ({ conversationId, onSelectConversation, onExit }: ConversationViewProps) => {
+  const { conversations, addTurn, setActiveLeaf, remove } = useConversations();
+  const [question, setQuestion] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [branchFromId, setBranchFromId] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const runQuery = useRunQuery();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const conversation = conversations.find(c => c.id === conversationId);
+  const thread = useMemo(() => (conversation ? threadPath(conversation) : []), [conversation]);
+
+  // Leaving the conversation cancels a follow-up that is still being answered
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  if (!conversation) {
+    return (
+      <Card className="interactive-card">
+        <CardContent className="flex items-center justify-center py-12">
+          <div className="text-center space-y-3">
+            <MessagesSquare className="w-12 h-12 text-muted-foreground mx-auto" />
+            <p className="font-medium text-foreground">This conversation is no longer available</p>
+            <Button variant="outline" size="sm" onClick={onExit} className="btn-glass">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to results
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const leaf = thread[thread.length - 1];
+  const parentId = branchFromId ?? leaf.id;
+  const branchIndex = branchFromId ? thread.findIndex(turn => turn.id === branchFromId) : -1;
+
+  const openDocument = (name: string) => {
+    navigate({ pathname: `/documents/${encodeURIComponent(name)}`, search: location.search });
+  };
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied to clipboard",
+        description: "Content has been copied to your clipboard",
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to copy",
+        description: "Could not copy content to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const switchBranch = (turn: ConversationTurn, offset: number) => {
+    const siblings = siblingsOf(conversation, turn);
+    const next = siblings[siblings.indexOf(turn) + offset];
+    if (!next) return;
+    setActiveLeaf(conversation.id, latestLeaf(conversation, next.id));
+    setBranchFromId(null);
+  };
+
+  const handleSend = async () => {
+    const text = question.trim();
+    if (!text || pendingQuestion) return;
+
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setPendingQuestion(text);
+    setQuestion('');
+    try {
+      // Only the turns up to the branch point are context for the follow-up
+      const context = conversationContext(threadPath(conversation, parentId));
+      const response = await runQuery.mutateAsync({
+        request: {
+          query: text,
+          action: 'think',
+          threshold: conversation.threshold,
+          max_results: conversation.max_results,
+          translate_to: conversation.translate_to,
+          filters: conversation.filters,
+          conversation: context,
+        },
+        signal: controller.signal,
+      });
+
+      if (response.success) {
+        addTurn(conversation.id, parentId, text, response);
+        setBranchFromId(null);
+      } else {
+        setQuestion(text);
+        toast({
+          title: "Follow-up failed",
+          description: response.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      if (isCancelledRequest(error)) return;
+      setQuestion(text);
+      showError(error, { title: "Follow-up error" });
+    } finally {
+      if (!controller.signal.aborted) setPendingQuestion(null);
+      if (requestRef.current === controller) requestRef.current = null;
+    }
+  };
+
+  return (
+    <Card className="interactive-card">
+      <CardHeader>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <CardTitle className="flex items-center space-x-2">
+              <MessagesSquare className="w-5 h-5 text-success" />
+              <span>Conversation</span>
+            </CardTitle>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" size="sm" onClick={onExit} className="btn-glass">
+                <ArrowLeft className="w-4 h-4" />
+                <span className="ml-2 hidden sm:inline">Results</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  remove(conversation.id);
+                  onExit();
+                }}
+                className="btn-glass hover:bg-destructive/10 hover:text-destructive"
+                title="Delete conversation"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Select value={conversation.id} onValueChange={onSelectConversation}>
+              <SelectTrigger className="glass flex-1 min-w-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="glass-strong">
+                {conversations.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    <span className="truncate">{c.title}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {conversation.filters && (
+              <Badge variant="outline" className="bg-accent/10 text-accent border-accent/30 flex-shrink-0">
+                <Filter className="w-3 h-3 mr-1" />
+                Scoped
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Thread */}
+        <ScrollArea className="h-[28rem] w-full">
+          <div className="space-y-4 pr-4">
+            {thread.map((turn, index) => {
+              const siblings = siblingsOf(conversation, turn);
+              const position = siblings.indexOf(turn);
+              const isBranchPoint = turn.id === branchFromId;
+
+              return (
+                <div key={turn.id} className="space-y-2">
+                  {/* Question */}
+                  <div className="flex justify-end">
+                    <div className="max-w-[85%] space-y-1">
+                      <div className="rounded-lg px-4 py-2 bg-primary/10 border border-primary/20 text-sm text-foreground whitespace-pre-wrap">
+                        {turn.question}
+                      </div>
+                      {siblings.length > 1 && (
+                        <div className="flex items-center justify-end space-x-1 text-xs text-muted-foreground">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => switchBranch(turn, -1)}
+                            disabled={position === 0}
+                            className="h-6 w-6 p-0"
+                            title="Previous branch"
+                          >
+                            <ChevronLeft className="w-3 h-3" />
+                          </Button>
+                          <span>{position + 1} / {siblings.length}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => switchBranch(turn, 1)}
+                            disabled={position === siblings.length - 1}
+                            className="h-6 w-6 p-0"
+                            title="Next branch"
+                          >
+                            <ChevronRight className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Answer */}
+                  <div className={`glass rounded-lg p-4 space-y-3 max-w-[95%] ${isBranchPoint ? 'border-primary glow-primary' : ''}`}>
+                    <div className="flex items-center space-x-2 text-xs text-muted-foreground">
+                      <Brain className="w-4 h-4 text-success" />
+                      <span>Turn {index + 1}</span>
+                    </div>
+                    <div className="text-sm text-foreground whitespace-pre-wrap">{turn.answer}</div>
+
+                    {turn.citations.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {turn.citations.map((citation, citationIndex) => (
+                          <Tooltip key={`${citation.source}-${citationIndex}`}>
+                            <TooltipTrigger asChild>
+                              <button
+                                onClick={() => openDocument(citation.source)}
+                                className="inline-flex items-center rounded-full border border-border/50 bg-muted/20 px-2 py-0.5 text-xs text-foreground hover:border-primary/50 hover:text-primary transition-colors"
+                              >
+                                <span className="font-semibold mr-1">[{citationIndex + 1}]</span>
+                                <FileText className="w-3 h-3 mr-1" />
+                                <span className="truncate max-w-40">{citation.source}</span>
+                              </button>
+                            </TooltipTrigger>
+                            <TooltipContent className="max-w-sm space-y-1">
+                              <p className="text-xs font-medium break-words">{citation.source}</p>
+                              {citation.excerpt && (
+                                <p className="text-xs text-muted-foreground line-clamp-4">{citation.excerpt}</p>
+                              )}
+                              {citation.similarity !== undefined && (
+                                <p className="text-xs">{(citation.similarity * 100).toFixed(0)}% match</p>
+                              )}
+                            </TooltipContent>
+                          </Tooltip>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-end space-x-2">
+                      {turn.id !== leaf.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setBranchFromId(isBranchPoint ? null : turn.id)}
+                          className={`h-7 px-2 text-xs ${isBranchPoint ? 'text-primary' : ''}`}
+                        >
+                          <GitBranch className="w-3 h-3 mr-1" />
+                          Branch from here
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => copyToClipboard(turn.answer)}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <Copy className="w-3 h-3 mr-1" />
+                        Copy
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+
+            {pendingQuestion && (
+              <div className="space-y-2">
+                <div className="flex justify-end">
+                  <div className="max-w-[85%] rounded-lg px-4 py-2 bg-primary/10 border border-primary/20 text-sm text-foreground whitespace-pre-wrap">
+                    {pendingQuestion}
+                  </div>
+                </div>
+                <div className="glass rounded-lg p-4 flex items-center space-x-2 text-sm text-muted-foreground max-w-[95%]">
+                  <Loader2 className="w-4 h-4 animate-spin text-success" />
+                  <span>Thinking...</span>
+                </div>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        {/* Composer */}
+        <div className="space-y-2">
+          {branchFromId && (
+            <div className="flex items-center justify-between rounded-lg px-3 py-2 bg-primary/10 text-xs text-primary">
+              <span className="flex items-center">
+                <GitBranch className="w-3 h-3 mr-2" />
+                Branching from turn {branchIndex + 1}; later turns stay in their own branch
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setBranchFromId(null)} className="h-6 w-6 p-0">
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+          <div className="flex items-end space-x-2">
+            <Textarea
+              placeholder="Ask a follow-up question..."
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              className="glass min-h-16 resize-none"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+            />
+            <Button onClick={handleSend} disabled={!question.trim() || pendingQuestion !== null} className="h-16">
+              {pendingQuestion ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Follow-ups include the earlier turns and their citations as context. Press Ctrl+Enter to send.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConversationView;
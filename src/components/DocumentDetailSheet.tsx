@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Calendar, FileText, Layers, Loader2, Network, Search, BookOpen } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { describeApiError, type ErrorPresentation } from '@/lib/apiErrors';
+import { getExtension } from '@/lib/fileTypes';
+import { apiService } from '@/services/api';
+import type { DocumentDetail } from '@/types/api';
+
+interface DocumentDetailSheetProps {
+  name: string | null;
+  onClose: () => void;
+  onSearchWithin?: (name: string) => void;
+}
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg'];
+
+const DocumentDetailSheet = ({ name, onClose, onSearchWithin }: DocumentDetailSheetProps) => {
+  const [detail, setDetail] = useState<DocumentDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<ErrorPresentation | null>(null);
+  const [tab, setTab] = useState('text');
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [fileError, setFileError] = useState(false);
+
+  const extension = name ? getExtension(name) : '';
+  const isImage = IMAGE_EXTENSIONS.includes(extension);
+  const isPdf = extension === '.pdf';
+  const canRender = isImage || isPdf;
+
+  useEffect(() => {
+    setDetail(null);
+    setError(null);
+    setTab('text');
+    if (!name) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    apiService.getDocument(name, controller.signal)
+      .then((response) => {
+        if (!controller.signal.aborted) setDetail(response);
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(describeApiError(err, 'Failed to load document'));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => {
+      controller.abort();
+    };
+  }, [name]);
+
+  // The original file can be large, so it is only fetched once its tab is opened
+  useEffect(() => {
+    setFileUrl(null);
+    setFileError(false);
+    if (!name || !canRender || tab !== 'original') return;
+
+    const controller = new AbortController();
+    let url: string | null = null;
+    apiService.getDocumentFile(name, controller.signal)
+      .then((blob) => {
+        if (controller.signal.aborted) return;
+        url = URL.createObjectURL(blob);
+        setFileUrl(url);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setFileError(true);
+      });
+    return () => {
+      controller.abort();
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [name, canRender, tab]);
+
+  const formatDate = (dateString: string) => {
+    try {
+      return new Date(dateString).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  const renderOriginal = () => {
+    if (!canRender) {
+      return (
+        <div className="text-center py-8 space-y-2">
+          <FileText className="w-10 h-10 mx-auto text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            {extension.toUpperCase().slice(1) || 'This'} files cannot be displayed in the browser
+          </p>
+        </div>
+      );
+    }
+    if (fileError) {
+      return (
+        <p className="text-sm text-destructive text-center py-8">
+          The original file could not be loaded
+        </p>
+      );
+    }
+    if (!fileUrl) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      );
+    }
+    if (isImage) {
+      return <img src={fileUrl} alt={name ?? ''} className="max-h-[70vh] mx-auto rounded-lg object-contain" />;
+    }
+    return (
+      <object data={`${fileUrl}#view=FitH`} type="application/pdf" className="w-full h-[70vh] rounded-lg">
+        <p className="text-sm text-muted-foreground text-center py-8">
+          This browser cannot display PDFs inline
+        </p>
+      </object>
+    );
+  };
+
+  return (
+    <Sheet open={name !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="glass-strong border-border/50 w-full sm:max-w-2xl overflow-y-auto">
+        <SheetHeader className="pr-6">
+          <SheetTitle className="truncate" title={name ?? undefined}>
+            {detail?.title || name}
+          </SheetTitle>
+          <SheetDescription className="flex items-center space-x-1">
+            {detail && (
+              <>
+                <Calendar className="w-3 h-3" />
+                <span>Uploaded {formatDate(detail.upload_date)}</span>
+              </>
+            )}
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            <span className="ml-2 text-muted-foreground">Loading document...</span>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 space-y-3">
+            <AlertTriangle className="w-10 h-10 mx-auto text-destructive" />
+            <p className="text-sm font-medium text-foreground">{error.title}</p>
+            <p className="text-sm text-muted-foreground">{error.description}</p>
+            {error.recovery && <p className="text-xs text-muted-foreground">{error.recovery}</p>}
+          </div>
+        ) : detail && (
+          <div className="space-y-4 mt-4">
+            {/* Statistics */}
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="glass rounded-lg p-3 text-center">
+                <BookOpen className="w-4 h-4 mx-auto text-primary mb-1" />
+                <div className="text-lg font-bold text-foreground">{detail.page_count ?? '—'}</div>
+                <div className="text-xs text-muted-foreground">Pages</div>
+              </div>
+              <div className="glass rounded-lg p-3 text-center">
+                <Network className="w-4 h-4 mx-auto text-accent mb-1" />
+                <div className="text-lg font-bold text-foreground">
+                  {detail.cluster === null || detail.cluster === undefined ? '—' : `#${detail.cluster}`}
+                </div>
+                <div className="text-xs text-muted-foreground">Cluster</div>
+              </div>
+              <div className="glass rounded-lg p-3 text-center">
+                <Layers className="w-4 h-4 mx-auto text-success mb-1" />
+                <div className="text-lg font-bold text-foreground">{detail.chunks.length}</div>
+                <div className="text-xs text-muted-foreground">Chunks</div>
+              </div>
+              <div className="glass rounded-lg p-3 text-center">
+                <FileText className="w-4 h-4 mx-auto text-warning mb-1" />
+                <div className="text-lg font-bold text-foreground">{detail.content_length.toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">Characters</div>
+              </div>
+            </div>
+
+            {onSearchWithin && (
+              <Button onClick={() => onSearchWithin(detail.name)} className="btn-hero w-full">
+                <Search className="w-4 h-4 mr-2" />
+                Search within this document
+              </Button>
+            )}
+
+            <Tabs value={tab} onValueChange={setTab} className="space-y-4">
+              <TabsList className="grid w-full grid-cols-3 glass">
+                <TabsTrigger value="text">Extracted text</TabsTrigger>
+                <TabsTrigger value="chunks">Chunks</TabsTrigger>
+                <TabsTrigger value="original">Original</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="text">
+                <pre className="glass rounded-lg p-3 text-xs text-foreground whitespace-pre-wrap max-h-[60vh] overflow-y-auto">
+                  {detail.text || '(no text was extracted)'}
+                </pre>
+              </TabsContent>
+
+              <TabsContent value="chunks" className="space-y-2">
+                {detail.chunks.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-8">
+                    This document has not been split into chunks
+                  </p>
+                ) : detail.chunks.map((chunk) => (
+                  <div key={chunk.index} className="glass rounded-lg p-3 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline" className="text-xs">Chunk {chunk.index + 1}</Badge>
+                      {chunk.page !== undefined && (
+                        <Badge variant="outline" className="text-xs">Page {chunk.page}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground whitespace-pre-wrap">{chunk.content}</p>
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="original">{renderOriginal()}</TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DocumentDetailSheet;
@@ -1,61 +1,271 @@
-import { useState, useEffect } from 'react';
-import { FileText, RefreshCw, Database, Calendar, BarChart3, Loader2, AlertTriangle } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { FileText, RefreshCw, Database, Calendar, Loader2, AlertTriangle, Folder, Globe, ClipboardPaste, Trash2, RotateCw, Search, ArrowUp, ArrowDown, ArrowUpDown, Tag, FolderPlus, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ScrollArea } from '@/components/ui/scroll-area';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import CollectionsDialog from '@/components/CollectionsDialog';
+import TagInput from '@/components/TagInput';
+import { useErrorToast } from '@/hooks/use-error-toast';
 import { useToast } from '@/hooks/use-toast';
-import { apiService } from '@/services/api';
+import { useLibrary } from '@/hooks/use-library';
+import { useBackendProfiles } from '@/hooks/use-backend-profile';
+import { queryKeys, useDeleteDocument, useDeleteDocuments, useDocuments, useReindexDocuments, useReloadDocuments } from '@/hooks/use-api';
+import { useDocumentTable, PAGE_SIZE_OPTIONS, type DocumentSortKey } from '@/hooks/use-document-table';
+import { getExtension } from '@/lib/fileTypes';
 import type { DocumentsResponse, DocumentInfo } from '@/types/api';
 
-interface DocumentManagerProps {
-  onDocumentsChange?: () => void;
-}
+// Page links to show around the current page, with gaps collapsed to an ellipsis
+// Documents without a readable upload date sort as the oldest
+const uploadTime = (doc: DocumentInfo) => {
+  const time = new Date(doc.upload_date).getTime();
+  return Number.isNaN(time) ? -Infinity : time;
+};
+
+const pageNumbers = (current: number, total: number): (number | 'ellipsis')[] => {
+  const pages: (number | 'ellipsis')[] = [];
+  for (let page = 1; page <= total; page++) {
+    if (page === 1 || page === total || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else if (pages[pages.length - 1] !== 'ellipsis') {
+      pages.push('ellipsis');
+    }
+  }
+  return pages;
+};
 
-const DocumentManager = ({ onDocumentsChange }: DocumentManagerProps) => {
-  const [documents, setDocuments] = useState<DocumentsResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [reloading, setReloading] = useState(false);
+const DocumentManager = () => {
+  const { data: documents = null, isLoading: loading, error: loadError, refetch } = useDocuments();
+  const reload = useReloadDocuments();
+  const deleteOne = useDeleteDocument();
+  const deleteMany = useDeleteDocuments();
+  const reindex = useReindexDocuments();
+  const queryClient = useQueryClient();
+  const { activeProfile } = useBackendProfiles();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+  const [reindexing, setReindexing] = useState<Set<string>>(new Set());
+  const [bulkTags, setBulkTags] = useState<string[]>([]);
+  const table = useDocumentTable();
+  const library = useLibrary();
+  const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const extensions = useMemo(() => (
+    [...new Set((documents?.documents ?? []).map(doc => getExtension(doc.name)).filter(Boolean))].sort()
+  ), [documents]);
+
+  const visibleDocuments = useMemo(() => {
+    const filter = table.filter.trim().toLowerCase();
+    const collection = library.collections.find(c => c.id === table.collection);
+    const matches = (documents?.documents ?? []).filter(doc => (
+      (table.extension === 'all' || getExtension(doc.name) === table.extension) &&
+      (table.tag === 'all' || (library.tags[doc.name] ?? []).includes(table.tag)) &&
+      (!collection || collection.documents.includes(doc.name)) &&
+      (!filter || [doc.name, doc.title, doc.relative_path].some(value => value?.toLowerCase().includes(filter)))
+    ));
+    const direction = table.direction === 'asc' ? 1 : -1;
+    return matches.sort((a, b) => {
+      switch (table.sort) {
+        case 'size':
+          return (a.content_length - b.content_length) * direction;
+        case 'date': {
+          // Compared rather than subtracted, since -Infinity minus itself is NaN
+          const timeA = uploadTime(a);
+          const timeB = uploadTime(b);
+          return (timeA === timeB ? 0 : timeA < timeB ? -1 : 1) * direction;
+        }
+        default:
+          // Sorting on the path keeps documents from the same folder together
+          return (a.relative_path ?? a.name).localeCompare(b.relative_path ?? b.name, undefined, { numeric: true }) * direction;
+      }
+    });
+  }, [documents, library.tags, library.collections, table.filter, table.extension, table.tag, table.collection, table.sort, table.direction]);
+
+  const activeCollection = library.collections.find(c => c.id === table.collection);
+
+  // Deletes can shrink the list below the page in the URL; clamp rather than show an empty page
+  const totalPages = Math.max(1, Math.ceil(visibleDocuments.length / table.pageSize));
+  const currentPage = Math.min(table.page, totalPages);
+  const pageStart = (currentPage - 1) * table.pageSize;
+  const pageDocuments = visibleDocuments.slice(pageStart, pageStart + table.pageSize);
+  // Bulk actions only touch selected documents the current filters still show
+  const selectedNames = visibleDocuments.filter(doc => selected.has(doc.name)).map(doc => doc.name);
 
   useEffect(() => {
-    loadDocuments();
-  }, []);
+    if (loadError) showError(loadError, { title: "Failed to load documents", onRetry: () => refetch() });
+  }, [loadError, showError, refetch]);
 
-  const loadDocuments = async () => {
-    try {
-      setLoading(true);
-      const response = await apiService.getDocuments();
-      setDocuments(response);
-    } catch (error) {
-      toast({
-        title: "Failed to load documents",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
+  // Optimistic edits go straight into the cached list; the mutations refetch it once settled
+  const setDocuments = (update: (prev: DocumentsResponse | undefined) => DocumentsResponse | undefined) => {
+    queryClient.setQueryData<DocumentsResponse>(queryKeys.documents(activeProfile.id), update);
   };
 
   const reloadDocuments = async () => {
     try {
-      setReloading(true);
-      await apiService.reloadDocuments();
-      await loadDocuments();
+      await reload.mutateAsync();
       toast({
         title: "Documents reloaded",
         description: "Document index has been refreshed",
       });
-      onDocumentsChange?.();
     } catch (error) {
-      toast({
-        title: "Failed to reload documents",
-        description: error instanceof Error ? error.message : "Unknown error occurred",
-        variant: "destructive",
-      });
+      showError(error, { title: "Failed to reload documents", onRetry: reloadDocuments });
+    }
+  };
+
+  // Keep the table's query string so closing the detail view restores the same page
+  const openDocument = (name: string) => {
+    navigate({ pathname: `/documents/${encodeURIComponent(name)}`, search: location.search });
+  };
+
+  const toggleSelected = (name: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  // Select-all applies to everything matching the filters, not just the current page
+  const toggleSelectAll = () => {
+    const names = visibleDocuments.map(doc => doc.name);
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (selectedNames.length === names.length) names.forEach(name => next.delete(name));
+      else names.forEach(name => next.add(name));
+      return next;
+    });
+  };
+
+  // Put documents back after a failed optimistic delete
+  const restoreDocuments = (snapshot: DocumentInfo[], names: string[]) => {
+    const restore = new Set(names);
+    setDocuments(prev => {
+      if (!prev) return prev;
+      const present = new Set(prev.documents.map(doc => doc.name));
+      const restored = snapshot.filter(doc => restore.has(doc.name) && !present.has(doc.name));
+      return {
+        ...prev,
+        documents: [...prev.documents, ...restored],
+        total_documents: prev.total_documents + restored.length,
+      };
+    });
+  };
+
+  const deleteDocuments = async (names: string[]) => {
+    if (!documents || names.length === 0) return;
+    const snapshot = documents.documents;
+    const removing = new Set(names);
+
+    // A refetch landing mid-delete would bring the rows back
+    await queryClient.cancelQueries({ queryKey: queryKeys.documents(activeProfile.id) });
+    // Optimistically drop the rows; failures are restored below
+    setDocuments(prev => prev && {
+      ...prev,
+      documents: prev.documents.filter(doc => !removing.has(doc.name)),
+      total_documents: Math.max(0, prev.total_documents - names.length),
+    });
+    setSelected(prev => new Set([...prev].filter(name => !removing.has(name))));
+
+    try {
+      let failed: string[] = [];
+      let firstError: string | undefined;
+      if (names.length === 1) {
+        const response = await deleteOne.mutateAsync(names[0]);
+        if (!response.success) {
+          failed = names;
+          firstError = response.message;
+        }
+      } else {
+        const response = await deleteMany.mutateAsync(names);
+        const failedResults = response.results.filter(result => !result.success);
+        failed = failedResults.map(result => result.name);
+        firstError = failedResults[0]?.error ?? (response.success ? undefined : response.message);
+        // Names the backend did not report on are treated as failed
+        const reported = new Set(response.results.map(result => result.name));
+        failed.push(...names.filter(name => !reported.has(name) && !response.success));
+      }
+
+      library.forgetDocuments(names.filter(name => !failed.includes(name)));
+      if (failed.length > 0) {
+        restoreDocuments(snapshot, failed);
+        toast({
+          title: failed.length === names.length ? "Delete failed" : "Some documents were not deleted",
+          description: `${names.length - failed.length} deleted, ${failed.length} failed${firstError ? `: ${firstError}` : ''}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: names.length === 1 ? "Document deleted" : "Documents deleted",
+          description: names.length === 1 ? names[0] : `${names.length} documents removed from the library`,
+        });
+      }
+    } catch (error) {
+      restoreDocuments(snapshot, names);
+      showError(error, { title: "Delete failed", onRetry: () => deleteDocuments(names) });
+    }
+  };
+
+  const reindexDocuments = async (names: string[]) => {
+    if (names.length === 0) return;
+    setReindexing(prev => new Set([...prev, ...names]));
+    try {
+      const response = await reindex.mutateAsync(names);
+      const failed = response.results.filter(result => !result.success);
+      if (failed.length > 0 || !response.success) {
+        toast({
+          title: "Reindex incomplete",
+          description: failed.length > 0
+            ? `${failed.length} of ${names.length} failed: ${failed[0].error ?? failed[0].name}`
+            : response.message,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Reindex complete",
+          description: `${names.length} document${names.length > 1 ? 's' : ''} reindexed`,
+        });
+      }
+    } catch (error) {
+      showError(error, { title: "Reindex failed", onRetry: () => reindexDocuments(names) });
     } finally {
-      setReloading(false);
+      setReindexing(prev => new Set([...prev].filter(name => !names.includes(name))));
     }
   };
 
@@ -81,6 +291,21 @@ const DocumentManager = ({ onDocumentsChange }: DocumentManagerProps) => {
     }
   };
 
+  const renderSortHeader = (key: DocumentSortKey, label: string) => {
+    const SortIcon = table.sort !== key ? ArrowUpDown : table.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => table.toggleSort(key)}
+        className={`-ml-3 h-8 px-3 ${table.sort === key ? 'text-foreground' : ''}`}
+      >
+        {label}
+        <SortIcon className="w-3 h-3 ml-1" />
+      </Button>
+    );
+  };
+
   if (loading) {
     return (
       <Card className="interactive-card">
@@ -108,20 +333,23 @@ const DocumentManager = ({ onDocumentsChange }: DocumentManagerProps) => {
             <Database className="w-5 h-5 text-primary" />
             <span>Document Library</span>
           </CardTitle>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={reloadDocuments}
-            disabled={reloading}
-            className="btn-glass"
-          >
-            {reloading ? (
-              <Loader2 className="w-4 h-4 animate-spin" />
-            ) : (
-              <RefreshCw className="w-4 h-4" />
-            )}
-            <span className="ml-2 hidden sm:inline">Refresh</span>
-          </Button>
+          <div className="flex items-center space-x-2">
+            <CollectionsDialog />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={reloadDocuments}
+              disabled={reload.isPending}
+              className="btn-glass"
+            >
+              {reload.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4" />
+              )}
+              <span className="ml-2 hidden sm:inline">Refresh</span>
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -155,57 +383,397 @@ const DocumentManager = ({ onDocumentsChange }: DocumentManagerProps) => {
               </div>
             </div>
 
-            {/* Documents List */}
-            <div className="space-y-2">
-              <div className="flex items-center space-x-2">
-                <BarChart3 className="w-4 h-4 text-muted-foreground" />
-                <span className="text-sm font-medium text-foreground">Documents</span>
-              </div>
-              
-              <ScrollArea className="h-64 w-full">
-                <div className="space-y-2 pr-4">
-                  {documents.documents.map((doc: DocumentInfo, index: number) => (
-                    <div
-                      key={index}
-                      className="glass rounded-lg p-3 hover:bg-primary/5 transition-colors"
+            {/* Documents Table */}
+            <div className="space-y-3">
+              <div className="flex items-center flex-wrap gap-2">
+                <div className="relative flex-1 min-w-48">
+                  <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                  <Input
+                    placeholder="Filter by name..."
+                    value={table.filter}
+                    onChange={(e) => table.update({ filter: e.target.value })}
+                    className="glass pl-9 h-9"
+                    aria-label="Filter documents by name"
+                  />
+                </div>
+                <Select value={table.extension} onValueChange={(value) => table.update({ extension: value })}>
+                  <SelectTrigger className="glass h-9 w-36" aria-label="Filter by file type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="glass-strong">
+                    <SelectItem value="all">All types</SelectItem>
+                    {extensions.map((extension) => (
+                      <SelectItem key={extension} value={extension}>
+                        {extension.toUpperCase().slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {library.allTags.length > 0 && (
+                  <Select value={table.tag} onValueChange={(value) => table.update({ tag: value })}>
+                    <SelectTrigger className="glass h-9 w-36" aria-label="Filter by tag">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="glass-strong">
+                      <SelectItem value="all">All tags</SelectItem>
+                      {library.allTags.map((tag) => (
+                        <SelectItem key={tag} value={tag}>
+                          {tag}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {library.collections.length > 0 && (
+                  <Select value={table.collection} onValueChange={(value) => table.update({ collection: value })}>
+                    <SelectTrigger className="glass h-9 w-40" aria-label="Filter by collection">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="glass-strong">
+                      <SelectItem value="all">All collections</SelectItem>
+                      {library.collections.map((collection) => (
+                        <SelectItem key={collection.id} value={collection.id}>
+                          {collection.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {selectedNames.length > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-muted-foreground">{selectedNames.length} selected</span>
+                    <Popover onOpenChange={(open) => !open && setBulkTags([])}>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm" className="btn-glass h-9">
+                          <Tag className="w-4 h-4 mr-1" />
+                          Tag
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="glass-strong w-72 space-y-2" align="end">
+                        <p className="text-sm font-medium text-foreground">Add tags to {selectedNames.length} document{selectedNames.length > 1 ? 's' : ''}</p>
+                        <TagInput value={bulkTags} onChange={setBulkTags} suggestions={library.allTags} />
+                        <Button
+                          size="sm"
+                          className="w-full"
+                          disabled={bulkTags.length === 0}
+                          onClick={() => {
+                            library.addTags(selectedNames, bulkTags);
+                            setBulkTags([]);
+                          }}
+                        >
+                          Apply
+                        </Button>
+                      </PopoverContent>
+                    </Popover>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="btn-glass h-9">
+                          <FolderPlus className="w-4 h-4 mr-1" />
+                          Collection
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent className="glass-strong" align="end">
+                        <DropdownMenuLabel>Add to collection</DropdownMenuLabel>
+                        {library.collections.length === 0 && (
+                          <DropdownMenuItem disabled>Create a collection first</DropdownMenuItem>
+                        )}
+                        {library.collections.map((collection) => (
+                          <DropdownMenuItem
+                            key={collection.id}
+                            onSelect={() => library.addToCollection(collection.id, selectedNames)}
+                          >
+                            {collection.name}
+                          </DropdownMenuItem>
+                        ))}
+                        {activeCollection && (
+                          <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onSelect={() => library.removeFromCollection(activeCollection.id, selectedNames)}
+                              className="text-destructive"
+                            >
+                              Remove from {activeCollection.name}
+                            </DropdownMenuItem>
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => reindexDocuments(selectedNames)}
+                      disabled={selectedNames.some(name => reindexing.has(name))}
+                      className="btn-glass h-9"
                     >
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-start space-x-3 flex-1 min-w-0">
-                          <div className="w-8 h-8 rounded bg-primary/10 flex items-center justify-center flex-shrink-0">
-                            <FileText className="w-4 h-4 text-primary" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="font-medium text-sm text-foreground truncate">
-                              {doc.name}
-                            </p>
-                            <div className="flex items-center space-x-3 mt-1">
-                              <span className="text-xs text-muted-foreground">
-                                {formatFileSize(doc.content_length)}
-                              </span>
-                              <div className="flex items-center space-x-1">
-                                <Calendar className="w-3 h-3 text-muted-foreground" />
-                                <span className="text-xs text-muted-foreground">
-                                  {formatDate(doc.upload_date)}
-                                </span>
-                              </div>
+                      <RotateCw className="w-4 h-4 mr-1" />
+                      Reindex
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPendingDelete(selectedNames)}
+                      className="h-9 border-destructive/30 text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="glass rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="hover:bg-transparent">
+                      <TableHead className="w-10">
+                        <Checkbox
+                          checked={
+                            selectedNames.length === 0
+                              ? false
+                              : selectedNames.length === visibleDocuments.length
+                                ? true
+                                : 'indeterminate'
+                          }
+                          onCheckedChange={toggleSelectAll}
+                          disabled={visibleDocuments.length === 0}
+                          aria-label="Select all matching documents"
+                        />
+                      </TableHead>
+                      <TableHead>{renderSortHeader('name', 'Name')}</TableHead>
+                      <TableHead className="hidden md:table-cell">Type</TableHead>
+                      <TableHead>{renderSortHeader('size', 'Size')}</TableHead>
+                      <TableHead className="hidden sm:table-cell">{renderSortHeader('date', 'Uploaded')}</TableHead>
+                      <TableHead className="w-32 text-right">
+                        <span className="sr-only">Status and actions</span>
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pageDocuments.length === 0 ? (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell colSpan={6} className="text-center py-8 text-sm text-muted-foreground">
+                          No documents match the current filters
+                        </TableCell>
+                      </TableRow>
+                    ) : pageDocuments.map((doc: DocumentInfo) => (
+                      <TableRow
+                        key={doc.name}
+                        data-state={selected.has(doc.name) ? 'selected' : undefined}
+                        onClick={() => openDocument(doc.name)}
+                        className="cursor-pointer hover:bg-primary/5 data-[state=selected]:bg-primary/5"
+                      >
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <Checkbox
+                            checked={selected.has(doc.name)}
+                            onCheckedChange={() => toggleSelected(doc.name)}
+                            aria-label={`Select ${doc.name}`}
+                          />
+                        </TableCell>
+                        <TableCell className="max-w-0 w-full">
+                          <div className="flex items-start space-x-3 min-w-0">
+                            <div className="w-8 h-8 rounded bg-primary/10 flex items-center justify-center flex-shrink-0">
+                              <FileText className="w-4 h-4 text-primary" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium text-sm text-foreground truncate" title={doc.name}>
+                                {doc.title || doc.name}
+                              </p>
+                              {(doc.source_type === 'paste' || doc.source_type === 'url') && (
+                                <div className="flex items-center space-x-1 mt-0.5 min-w-0">
+                                  {doc.source_type === 'url' ? (
+                                    <Globe className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                                  ) : (
+                                    <ClipboardPaste className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                                  )}
+                                  {doc.source_type === 'url' && doc.source ? (
+                                    <a
+                                      href={doc.source}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      onClick={(e) => e.stopPropagation()}
+                                      className="text-xs text-primary hover:underline truncate"
+                                    >
+                                      {doc.source}
+                                    </a>
+                                  ) : (
+                                    <span className="text-xs text-muted-foreground truncate">
+                                      {doc.source || 'Pasted text'}
+                                    </span>
+                                  )}
+                                </div>
+                              )}
+                              {doc.relative_path && doc.relative_path.includes('/') && (
+                                <div className="flex items-center space-x-1 mt-0.5">
+                                  <Folder className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+                                  <span className="text-xs text-muted-foreground truncate">
+                                    {doc.relative_path.slice(0, doc.relative_path.lastIndexOf('/'))}
+                                  </span>
+                                </div>
+                              )}
+                              {library.tags[doc.name] && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {library.tags[doc.name].map((tag) => (
+                                    <Badge key={tag} variant="secondary" className="text-xs px-1.5 py-0 pr-0.5">
+                                      {tag}
+                                      <button
+                                        type="button"
+                                        onClick={(e) => {
+                                          e.stopPropagation();
+                                          library.removeTag([doc.name], tag);
+                                        }}
+                                        className="ml-0.5 rounded-full hover:bg-foreground/10"
+                                        aria-label={`Remove tag ${tag}`}
+                                      >
+                                        <X className="w-3 h-3" />
+                                      </button>
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
-                        </div>
-                        <Badge 
-                          variant="outline" 
-                          className="ml-2 text-xs bg-success/10 text-success border-success/30"
-                        >
-                          Indexed
-                        </Badge>
-                      </div>
-                    </div>
-                  ))}
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-xs text-muted-foreground">
+                          {getExtension(doc.name).toUpperCase().slice(1) || '—'}
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                          {formatFileSize(doc.content_length)}
+                        </TableCell>
+                        <TableCell className="hidden sm:table-cell text-xs text-muted-foreground whitespace-nowrap">
+                          <div className="flex items-center space-x-1">
+                            <Calendar className="w-3 h-3" />
+                            <span>{formatDate(doc.upload_date)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          <div className="flex items-center justify-end space-x-1">
+                            {reindexing.has(doc.name) && (
+                              <Badge variant="outline" className="text-xs bg-warning/10 text-warning border-warning/30">
+                                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                Reindexing
+                              </Badge>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPendingDelete([doc.name])}
+                              className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                              title="Delete document"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Paging */}
+              <div className="flex items-center justify-between flex-wrap gap-2">
+                <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                  <span>
+                    {visibleDocuments.length === 0
+                      ? '0 documents'
+                      : `${pageStart + 1}–${pageStart + pageDocuments.length} of ${visibleDocuments.length}`}
+                  </span>
+                  <Select
+                    value={String(table.pageSize)}
+                    onValueChange={(value) => table.update({ pageSize: Number(value) })}
+                  >
+                    <SelectTrigger className="glass h-8 w-20" aria-label="Rows per page">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="glass-strong">
+                      {PAGE_SIZE_OPTIONS.map((value) => (
+                        <SelectItem key={value} value={String(value)}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="hidden sm:inline">per page</span>
                 </div>
-              </ScrollArea>
+                {totalPages > 1 && (
+                  <Pagination className="mx-0 w-auto justify-end">
+                    <PaginationContent>
+                      <PaginationItem>
+                        <PaginationPrevious
+                          href="#"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            if (currentPage > 1) table.update({ page: currentPage - 1 });
+                          }}
+                          aria-disabled={currentPage === 1}
+                          className={currentPage === 1 ? 'pointer-events-none opacity-50' : ''}
+                        />
+                      </PaginationItem>
+                      {pageNumbers(currentPage, totalPages).map((page, index) => (
+                        <PaginationItem key={page === 'ellipsis' ? `ellipsis-${index}` : page}>
+                          {page === 'ellipsis' ? (
+                            <PaginationEllipsis />
+                          ) : (
+                            <PaginationLink
+                              href="#"
+                              isActive={page === currentPage}
+                              onClick={(e) => {
+                                e.preventDefault();
+                                table.update({ page });
+                              }}
+                            >
+                              {page}
+                            </PaginationLink>
+                          )}
+                        </PaginationItem>
+                      ))}
+                      <PaginationItem>
+                        <PaginationNext
+                          href="#"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            if (currentPage < totalPages) table.update({ page: currentPage + 1 });
+                          }}
+                          aria-disabled={currentPage === totalPages}
+                          className={currentPage === totalPages ? 'pointer-events-none opacity-50' : ''}
+                        />
+                      </PaginationItem>
+                    </PaginationContent>
+                  </Pagination>
+                )}
+              </div>
             </div>
           </>
         )}
       </CardContent>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="glass-strong border-border/50">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {pendingDelete?.length === 1 ? 'this document' : `${pendingDelete?.length} documents`}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.length === 1
+                ? `"${pendingDelete[0]}" will be removed from the library and the search index.`
+                : 'The selected documents will be removed from the library and the search index.'}
+              {' '}This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) deleteDocuments(pendingDelete);
+                setPendingDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
@@ -0,0 +1,129 @@
+import { useEffect, useState } from 'react';
+import { Copy, Database, ListChecks } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import type { DuplicateMatch, DuplicateResolution } from '@/types/upload';
+
+interface DuplicateReviewDialogProps {
+  duplicates: DuplicateMatch[];
+  onResolve: (resolutions: Map<DuplicateMatch, DuplicateResolution>) => void;
+  onCancel: () => void;
+}
+
+const resolutionLabels: Record<DuplicateResolution, string> = {
+  skip: 'Skip',
+  replace: 'Replace',
+  keep: 'Keep both',
+};
+
+// "Replace" needs something to replace: a library document or a queued file
+const canReplace = (match: DuplicateMatch) => match.source === 'library' || Boolean(match.existingId);
+
+const DuplicateReviewDialog = ({ duplicates, onResolve, onCancel }: DuplicateReviewDialogProps) => {
+  const [choices, setChoices] = useState<Map<DuplicateMatch, DuplicateResolution>>(new Map());
+
+  useEffect(() => {
+    setChoices(new Map(duplicates.map(match => [match, 'skip'])));
+  }, [duplicates]);
+
+  const setChoice = (match: DuplicateMatch, resolution: DuplicateResolution) => {
+    setChoices(prev => new Map(prev).set(match, resolution));
+  };
+
+  const setAll = (resolution: DuplicateResolution) => {
+    setChoices(new Map(duplicates.map(match => [
+      match,
+      resolution === 'replace' && !canReplace(match) ? 'keep' : resolution,
+    ])));
+  };
+
+  return (
+    <Dialog open={duplicates.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="glass-strong border-border/50 sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Copy className="w-5 h-5 text-warning" />
+            <span>Possible duplicates ({duplicates.length})</span>
+          </DialogTitle>
+          <DialogDescription>
+            These files have the same contents as documents you already have. Choose what to do with each one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          {(Object.keys(resolutionLabels) as DuplicateResolution[]).map((resolution) => (
+            <Button
+              key={resolution}
+              variant="ghost"
+              size="sm"
+              onClick={() => setAll(resolution)}
+              className="h-7 px-2 text-xs"
+            >
+              {resolutionLabels[resolution]} all
+            </Button>
+          ))}
+        </div>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {duplicates.map((match, index) => (
+            <div key={`${match.hash}-${index}`} className="glass rounded-lg p-3 space-y-2">
+              <div className="min-w-0">
+                <p className="font-medium text-sm text-foreground truncate">{match.file.name}</p>
+                <div className="flex items-center space-x-2 mt-1 text-xs text-muted-foreground">
+                  {match.source === 'library' ? (
+                    <Database className="w-3 h-3" />
+                  ) : (
+                    <ListChecks className="w-3 h-3" />
+                  )}
+                  <span className="truncate">
+                    Same as {match.existingName}
+                  </span>
+                  <Badge variant="outline" className="text-xs">
+                    {match.source === 'library' ? 'In library' : 'Already picked'}
+                  </Badge>
+                </div>
+              </div>
+              <RadioGroup
+                value={choices.get(match) ?? 'skip'}
+                onValueChange={(value) => setChoice(match, value as DuplicateResolution)}
+                className="flex items-center space-x-4"
+              >
+                {(Object.keys(resolutionLabels) as DuplicateResolution[])
+                  .filter(resolution => resolution !== 'replace' || canReplace(match))
+                  .map((resolution) => (
+                    <div key={resolution} className="flex items-center space-x-2">
+                      <RadioGroupItem value={resolution} id={`dup-${index}-${resolution}`} />
+                      <Label htmlFor={`dup-${index}-${resolution}`} className="text-xs">
+                        {resolutionLabels[resolution]}
+                      </Label>
+                    </div>
+                  ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onResolve(choices)}>
+            Continue
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateReviewDialog;
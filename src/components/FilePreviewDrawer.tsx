@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, FileText, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { getExtension } from '@/lib/fileTypes';
+import type { UploadQueueItem } from '@/types/upload';
+
+interface FilePreviewDrawerProps {
+  item: UploadQueueItem | null;
+  onClose: () => void;
+}
+
+const TEXT_PREVIEW_BYTES = 8 * 1024;
+const TEXT_PREVIEW_LINES = 30;
+
+const FilePreviewDrawer = ({ item, onClose }: FilePreviewDrawerProps) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [textPreview, setTextPreview] = useState<string | null>(null);
+  const [loadingText, setLoadingText] = useState(false);
+
+  // Queue items are replaced on every progress tick; key effects on the file itself
+  const file = item?.file;
+  const extension = file ? getExtension(file.name) : '';
+  const isImage = ['.png', '.jpg', '.jpeg'].includes(extension);
+  const isPdf = extension === '.pdf';
+  const isText = extension === '.txt';
+  const isBlocked = Boolean(item?.issues?.some(issue => issue.severity === 'error'));
+
+  useEffect(() => {
+    if (!file || !(isImage || isPdf) || isBlocked) {
+      setObjectUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setObjectUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file, isImage, isPdf, isBlocked]);
+
+  useEffect(() => {
+    setTextPreview(null);
+    if (!file || !isText) return;
+
+    let cancelled = false;
+    setLoadingText(true);
+    file.slice(0, TEXT_PREVIEW_BYTES).text()
+      .then((text) => {
+        if (!cancelled) setTextPreview(text.split(/\r?\n/).slice(0, TEXT_PREVIEW_LINES).join('\n'));
+      })
+      .catch(() => {
+        if (!cancelled) setTextPreview('');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingText(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, isText]);
+
+  const renderPreview = () => {
+    if (isBlocked) {
+      return (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          Preview is disabled for files that failed validation
+        </p>
+      );
+    }
+    if (isImage && objectUrl) {
+      return (
+        <img
+          src={objectUrl}
+          alt={item?.file.name}
+          className="max-h-[50vh] mx-auto rounded-lg object-contain"
+        />
+      );
+    }
+    if (isPdf && objectUrl) {
+      return (
+        <object
+          data={`${objectUrl}#page=1&view=FitH&toolbar=0`}
+          type="application/pdf"
+          className="w-full h-[50vh] rounded-lg"
+        >
+          <p className="text-sm text-muted-foreground text-center py-8">
+            This browser cannot display PDFs inline
+          </p>
+        </object>
+      );
+    }
+    if (isText) {
+      return loadingText ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <pre className="glass rounded-lg p-3 text-xs text-foreground whitespace-pre-wrap max-h-[50vh] overflow-y-auto">
+          {textPreview || '(no text content)'}
+        </pre>
+      );
+    }
+    return (
+      <div className="text-center py-8 space-y-2">
+        <FileText className="w-10 h-10 mx-auto text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">
+          No preview available for {extension.toUpperCase().slice(1)} files
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Drawer open={item !== null} onOpenChange={(open) => !open && onClose()}>
+      <DrawerContent className="glass-strong border-border/50">
+        {item && (
+          <div className="mx-auto w-full max-w-3xl p-4 space-y-4 overflow-y-auto max-h-[85vh]">
+            <DrawerHeader className="px-0">
+              <DrawerTitle className="truncate">{item.relativePath ?? item.file.name}</DrawerTitle>
+              <DrawerDescription>
+                {item.file.type || 'Unknown type'} • {item.file.size.toLocaleString()} bytes
+              </DrawerDescription>
+            </DrawerHeader>
+
+            {/* Validation */}
+            <div className="space-y-2">
+              {item.issues && item.issues.length > 0 ? (
+                item.issues.map((issue) => (
+                  <div
+                    key={issue.code}
+                    className={`flex items-start space-x-2 rounded-lg p-2 text-sm ${
+                      issue.severity === 'error'
+                        ? 'bg-destructive/10 text-destructive'
+                        : 'bg-warning/10 text-warning'
+                    }`}
+                  >
+                    {issue.severity === 'error' ? (
+                      <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    ) : (
+                      <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    )}
+                    <span className="flex-1">{issue.message}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {issue.code}
+                    </Badge>
+                  </div>
+                ))
+              ) : (
+                <div className="flex items-center space-x-2 rounded-lg p-2 text-sm bg-success/10 text-success">
+                  <CheckCircle className="w-4 h-4" />
+                  <span>Passed all checks</span>
+                </div>
+              )}
+            </div>
+
+            {renderPreview()}
+          </div>
+        )}
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default FilePreviewDrawer;
@@ -1,105 +1,263 @@
-import { useState, useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { Upload, File, X, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useDropzone, type FileRejection } from 'react-dropzone';
+import { Upload, File, X, CheckCircle, AlertCircle, Loader2, RotateCcw, Ban, Clock, History, Trash2, FolderOpen, Eye, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useErrorToast } from '@/hooks/use-error-toast';
 import { useToast } from '@/hooks/use-toast';
-import { apiService } from '@/services/api';
-import type { UploadResponse } from '@/types/api';
+import { useUploadQueue } from '@/hooks/use-upload-queue';
+import { useLibrary } from '@/hooks/use-library';
+import { fingerprintFile, recordProgress } from '@/services/resumableUpload';
+import { findDuplicates } from '@/services/duplicates';
+import { ingestFiles } from '@/services/ingest';
+import { hasBlockingIssues, validateFile } from '@/services/validation';
+import FilePreviewDrawer from '@/components/FilePreviewDrawer';
+import { ACCEPTED_FILE_TYPES, ARCHIVE_FILE_TYPES } from '@/lib/fileTypes';
+import DuplicateReviewDialog from '@/components/DuplicateReviewDialog';
+import TagInput from '@/components/TagInput';
+import type { DocumentLabels } from '@/types/library';
+import type {
+  DuplicateMatch,
+  DuplicateResolution,
+  ResumableUploadRecord,
+  UploadQueueEntry,
+  UploadQueueItem,
+  ValidationIssue,
+} from '@/types/upload';
 
-interface FileUploadProps {
-  onUploadComplete?: (response: UploadResponse) => void;
-}
+const concurrencyOptions = [1, 2, 3, 4];
+const batchSizeOptions = [1, 2, 5, 10];
 
-const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
-  const [files, setFiles] = useState<File[]>([]);
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+const FileUpload = () => {
+  const {
+    items,
+    config,
+    resumable,
+    add,
+    submit,
+    start,
+    retry,
+    cancel,
+    remove,
+    clearFinished,
+    setConfig,
+    discardResumable,
+  } = useUploadQueue();
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+  const [resumeTarget, setResumeTarget] = useState<ResumableUploadRecord | null>(null);
+  const [preparing, setPreparing] = useState<string | null>(null);
+  const [pendingDuplicates, setPendingDuplicates] = useState<DuplicateMatch[]>([]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  // Source-tree paths of files waiting on duplicate review
+  const pendingPathsRef = useRef<Map<File, string | undefined>>(new Map());
+  const pendingIssuesRef = useRef<Map<File, ValidationIssue[]>>(new Map());
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [labelTags, setLabelTags] = useState<string[]>([]);
+  const [labelCollection, setLabelCollection] = useState('none');
+  const { allTags, collections } = useLibrary();
   const { toast } = useToast();
+  const showError = useErrorToast();
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    setFiles(prev => [...prev, ...acceptedFiles]);
+  // Applied to files as they are added, so the same files keep the labels they were added with
+  const labels = useMemo<DocumentLabels | undefined>(() => (
+    labelTags.length > 0 || labelCollection !== 'none'
+      ? { tags: labelTags, collections: labelCollection === 'none' ? [] : [labelCollection] }
+      : undefined
+  ), [labelTags, labelCollection]);
+
+  useEffect(() => {
+    // Not part of React's input typings
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
   }, []);
 
+  const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[] = []) => {
+    if (acceptedFiles.length === 0 && fileRejections.length === 0) return;
+    try {
+      setPreparing('Reading folders and archives...');
+      const { files: ingested, skipped } = await ingestFiles(acceptedFiles);
+      const skippedCount = skipped.length + fileRejections.length;
+      if (skippedCount > 0) {
+        toast({
+          title: `Skipped ${skippedCount} unsupported file${skippedCount > 1 ? 's' : ''}`,
+          description: "Only PDF, DOCX, PPTX, TXT, JPG and PNG documents are uploaded",
+        });
+      }
+      if (ingested.length === 0) return;
+
+      setPreparing('Validating files...');
+      const issues = await Promise.all(ingested.map(({ file }) => validateFile(file)));
+      const issuesByFile = new Map(ingested.map(({ file }, index) => [file, issues[index]]));
+      // Files that cannot be uploaded are listed with their problems, not hashed
+      const invalid = ingested.filter(({ file }) => hasBlockingIssues(issuesByFile.get(file)));
+      const valid = ingested.filter(({ file }) => !hasBlockingIssues(issuesByFile.get(file)));
+      add(invalid.map(({ file, relativePath }) => ({ file, relativePath, issues: issuesByFile.get(file) })));
+      if (invalid.length > 0) {
+        toast({
+          title: `${invalid.length} file${invalid.length > 1 ? 's' : ''} failed validation`,
+          description: "Open a flagged file to see what is wrong with it",
+          variant: "destructive",
+        });
+      }
+
+      setPreparing('Checking for duplicates...');
+      const paths = new Map(valid.map(({ file, relativePath }) => [file, relativePath]));
+      const { hashes, duplicates } = await findDuplicates(valid.map(({ file }) => file), items);
+      const duplicateFiles = new Set(duplicates.map(match => match.file));
+      add(valid
+        .filter(({ file }) => !duplicateFiles.has(file))
+        .map(({ file, relativePath }) => ({
+          file,
+          relativePath,
+          hash: hashes.get(file),
+          issues: issuesByFile.get(file),
+          labels,
+        })));
+      pendingPathsRef.current = paths;
+      pendingIssuesRef.current = issuesByFile;
+      setPendingDuplicates(duplicates);
+    } catch (error) {
+      // Library lookups fall back to local records, so this is a failure reading the dropped files
+      showError(error, {
+        title: "Could not prepare files",
+        onRetry: () => void onDrop(acceptedFiles, fileRejections),
+      });
+    } finally {
+      setPreparing(null);
+    }
+  }, [add, items, toast, showError, labels]);
+
+  const handleFolderSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    void onDrop(selected);
+  };
+
+  const resolveDuplicates = (resolutions: Map<DuplicateMatch, DuplicateResolution>) => {
+    const entries: UploadQueueEntry[] = [];
+    resolutions.forEach((resolution, match) => {
+      if (resolution === 'skip') return;
+      const relativePath = pendingPathsRef.current.get(match.file);
+      const issues = pendingIssuesRef.current.get(match.file);
+      if (resolution === 'replace' && match.source === 'library') {
+        entries.push({ file: match.file, hash: match.hash, relativePath, issues, labels, replaces: match.existingName });
+        return;
+      }
+      if (resolution === 'replace' && match.existingId) {
+        remove(match.existingId);
+      }
+      entries.push({ file: match.file, hash: match.hash, relativePath, issues, labels });
+    });
+    add(entries);
+    setPendingDuplicates([]);
+  };
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf'],
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['.pptx'],
-      'text/plain': ['.txt'],
-      'image/jpeg': ['.jpg', '.jpeg'],
-      'image/png': ['.png'],
-    },
+    accept: { ...ACCEPTED_FILE_TYPES, ...ARCHIVE_FILE_TYPES },
     multiple: true,
   });
 
-  const removeFile = (index: number) => {
-    setFiles(prev => prev.filter((_, i) => i !== index));
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const uploadFiles = async () => {
-    if (files.length === 0) {
+  const pickFileToResume = (record: ResumableUploadRecord) => {
+    setResumeTarget(record);
+    resumeInputRef.current?.click();
+  };
+
+  // The resumed file goes through the same checks as a dropped one, then is
+  // sent on its own with the details its server session was opened with
+  const handleResumeFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const record = resumeTarget;
+    event.target.value = '';
+    if (!file || !record) return;
+
+    if (fingerprintFile(file) !== resumeTarget.fingerprint) {
       toast({
-        title: "No files selected",
-        description: "Please select files to upload",
+        title: "Different file selected",
+        description: `Pick the original "${record.filename}" (same name, size and modification date) to resume`,
         variant: "destructive",
       });
       return;
     }
+    setResumeTarget(null);
 
-    setUploading(true);
-    setUploadProgress(0);
-
+    const entry: UploadQueueEntry = {
+      file,
+      hash: record.content_hash,
+      relativePath: record.relative_path,
+      metadata: record.metadata,
+      labels,
+    };
     try {
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(progressInterval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      const response = await apiService.uploadFiles(files);
-      
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-
-      if (response.success) {
+      setPreparing('Validating files...');
+      entry.issues = await validateFile(file);
+      if (hasBlockingIssues(entry.issues)) {
+        add([entry]);
         toast({
-          title: "Upload successful",
-          description: response.message,
-        });
-        setFiles([]);
-        onUploadComplete?.(response);
-      } else {
-        toast({
-          title: "Upload failed",
-          description: response.message,
+          title: "1 file failed validation",
+          description: "Open the flagged file to see what is wrong with it",
           variant: "destructive",
         });
+        return;
+      }
+
+      setPreparing('Checking for duplicates...');
+      const { hashes, duplicates } = await findDuplicates([file], items);
+      if (duplicates.length > 0) {
+        pendingPathsRef.current = new Map([[file, entry.relativePath]]);
+        pendingIssuesRef.current = new Map([[file, entry.issues]]);
+        setPendingDuplicates(duplicates);
+        return;
       }
+      submit([{ ...entry, hash: entry.hash ?? hashes.get(file) }]);
     } catch (error) {
-      toast({
-        title: "Upload error",
-        description: error instanceof Error ? error.message : "Failed to upload files",
-        variant: "destructive",
-      });
+      showError(error, { title: "Could not resume upload" });
     } finally {
-      setUploading(false);
-      setUploadProgress(0);
+      setPreparing(null);
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const isActive = (item: UploadQueueItem) => (
+    item.status === 'pending' || item.status === 'uploading' || item.status === 'retrying'
+  );
+
+  const readyCount = items.filter(item => (
+    (item.status === 'idle' || item.status === 'error') && !hasBlockingIssues(item.issues)
+  )).length;
+  const activeItems = items.filter(isActive);
+  const uploading = activeItems.length > 0;
+  const overallProgress = activeItems.length > 0
+    ? Math.round(activeItems.reduce((sum, item) => sum + item.progress, 0) / activeItems.length)
+    : 0;
+
+  const renderStatusIcon = (item: UploadQueueItem) => {
+    if (hasBlockingIssues(item.issues)) {
+      return <AlertCircle className="w-4 h-4 text-destructive" />;
+    }
+    switch (item.status) {
+      case 'success':
+        return <CheckCircle className="w-4 h-4 text-success" />;
+      case 'error':
+        return <AlertCircle className="w-4 h-4 text-destructive" />;
+      case 'uploading':
+        return <Loader2 className="w-4 h-4 text-primary animate-spin" />;
+      case 'pending':
+      case 'retrying':
+        return <Clock className="w-4 h-4 text-warning" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-muted-foreground" />;
+      default:
+        return <File className="w-4 h-4 text-primary" />;
+    }
   };
 
   return (
@@ -129,38 +287,283 @@ const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
                 Drag & drop files here, or click to browse
               </p>
               <p className="text-xs text-muted-foreground mt-2">
-                Supports: PDF, DOCX, PPTX, TXT, JPG, PNG
+                Supports: PDF, DOCX, PPTX, TXT, JPG, PNG — plus folders and ZIP archives
               </p>
             </div>
           )}
         </div>
       </div>
 
+      <div className="flex justify-center">
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFolderSelect}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => folderInputRef.current?.click()}
+          disabled={preparing !== null}
+          className="btn-glass"
+        >
+          <FolderOpen className="w-4 h-4 mr-2" />
+          Select folder
+        </Button>
+      </div>
+
+      {/* Labels */}
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Tags for added files</Label>
+          <TagInput value={labelTags} onChange={setLabelTags} suggestions={allTags} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Collection for added files</Label>
+          <Select value={labelCollection} onValueChange={setLabelCollection}>
+            <SelectTrigger className="glass h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-strong">
+              <SelectItem value="none">No collection</SelectItem>
+              {collections.map((collection) => (
+                <SelectItem key={collection.id} value={collection.id}>
+                  {collection.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {preparing && (
+        <div className="flex items-center justify-center text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          {preparing}
+        </div>
+      )}
+
+      <FilePreviewDrawer
+        item={items.find(item => item.id === previewId) ?? null}
+        onClose={() => setPreviewId(null)}
+      />
+
+      <DuplicateReviewDialog
+        duplicates={pendingDuplicates}
+        onResolve={resolveDuplicates}
+        onCancel={() => setPendingDuplicates([])}
+      />
+
+      {/* Interrupted Uploads */}
+      {resumable.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <History className="w-4 h-4 text-warning" />
+            <h3 className="font-semibold text-foreground">Interrupted Uploads ({resumable.length})</h3>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Select the same file again to continue where the upload stopped.
+          </p>
+          <input
+            ref={resumeInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleResumeFile}
+          />
+          <div className="space-y-2">
+            {resumable.map((record) => (
+              <div key={record.fingerprint} className="glass rounded-lg p-3 space-y-2 border-warning/30">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="font-medium text-sm text-foreground truncate">{record.filename}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(record.size)} • {recordProgress(record)}% uploaded
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => pickFileToResume(record)}
+                      className="btn-glass h-8"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Resume
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => discardResumable(record.fingerprint)}
+                      className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                      title="Discard"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Progress value={recordProgress(record)} className="h-1" />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Queue Settings */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Parallel uploads</Label>
+          <Select
+            value={String(config.concurrency)}
+            onValueChange={(value) => setConfig({ concurrency: Number(value) })}
+          >
+            <SelectTrigger className="glass h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-strong">
+              {concurrencyOptions.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Files per request</Label>
+          <Select
+            value={String(config.batchSize)}
+            onValueChange={(value) => setConfig({ batchSize: Number(value) })}
+          >
+            <SelectTrigger className="glass h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="glass-strong">
+              {batchSizeOptions.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
       {/* File List */}
-      {files.length > 0 && (
+      {items.length > 0 && (
         <div className="space-y-3">
-          <h3 className="font-semibold text-foreground">Selected Files ({files.length})</h3>
-          <div className="space-y-2 max-h-48 overflow-y-auto">
-            {files.map((file, index) => (
-              <div key={index} className="glass rounded-lg p-3 flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="w-8 h-8 rounded bg-primary/10 flex items-center justify-center">
-                    <File className="w-4 h-4 text-primary" />
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-foreground">Upload Queue ({items.length})</h3>
+            {items.some(item => item.status === 'success') && (
+              <Button variant="ghost" size="sm" onClick={clearFinished} className="h-7 px-2 text-xs">
+                Clear uploaded
+              </Button>
+            )}
+          </div>
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className={`glass rounded-lg p-3 space-y-2 ${
+                  item.status === 'success'
+                    ? 'border-success/30 bg-success/5'
+                    : item.status === 'error' || hasBlockingIssues(item.issues)
+                      ? 'border-destructive/30 bg-destructive/5'
+                      : ''
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <div className="w-8 h-8 rounded bg-primary/10 flex items-center justify-center flex-shrink-0">
+                      {renderStatusIcon(item)}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-medium text-sm text-foreground truncate" title={item.relativePath}>
+                        {item.relativePath ?? item.file.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatFileSize(item.file.size)}
+                        {item.status === 'uploading' && ` • ${item.progress}%`}
+                        {item.status === 'pending' && ' • Queued'}
+                        {item.replaces && ` • Replaces ${item.replaces}`}
+                      </p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="font-medium text-sm text-foreground">{file.name}</p>
-                    <p className="text-xs text-muted-foreground">{formatFileSize(file.size)}</p>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPreviewId(item.id)}
+                      className="h-8 w-8 p-0"
+                      title="Preview"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    {(item.status === 'error' || item.status === 'cancelled') && !hasBlockingIssues(item.issues) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => retry(item.id)}
+                        className="h-8 w-8 p-0"
+                        title="Retry"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {isActive(item) ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => cancel(item.id)}
+                        className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                        title="Cancel"
+                      >
+                        <Ban className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => remove(item.id)}
+                        className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                        title="Remove"
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
-                {!uploading && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeFile(index)}
-                    className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                {item.status === 'uploading' && (
+                  <Progress value={item.progress} className="h-1" />
+                )}
+                {item.issues?.map((issue) => (
+                  <p
+                    key={issue.code}
+                    className={`flex items-center text-xs ${
+                      issue.severity === 'error' ? 'text-destructive' : 'text-warning'
+                    }`}
                   >
-                    <X className="w-4 h-4" />
-                  </Button>
+                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+                {item.message && (
+                  <p className={`text-xs ${
+                    item.status === 'error'
+                      ? 'text-destructive'
+                      : item.status === 'success'
+                        ? 'text-success'
+                        : 'text-muted-foreground'
+                  }`}>
+                    {item.message}
+                  </p>
+                )}
+                {item.replaceError && (
+                  <p className="flex items-center text-xs text-destructive">
+                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {item.replaceError}
+                  </p>
                 )}
               </div>
             ))}
@@ -170,20 +573,22 @@ const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
           {uploading && (
             <div className="space-y-2">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">Uploading...</span>
-                <span className="text-primary font-medium">{uploadProgress}%</span>
+                <span className="text-muted-foreground">
+                  Uploading {activeItems.length} file{activeItems.length !== 1 ? 's' : ''}...
+                </span>
+                <span className="text-primary font-medium">{overallProgress}%</span>
               </div>
-              <Progress value={uploadProgress} className="h-2" />
+              <Progress value={overallProgress} className="h-2" />
             </div>
           )}
 
           {/* Upload Button */}
           <Button
-            onClick={uploadFiles}
-            disabled={uploading}
+            onClick={start}
+            disabled={readyCount === 0}
             className="btn-hero w-full"
           >
-            {uploading ? (
+            {uploading && readyCount === 0 ? (
               <>
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                 Uploading...
@@ -191,7 +596,7 @@ const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
             ) : (
               <>
                 <Upload className="w-4 h-4 mr-2" />
-                Upload {files.length} file{files.length > 1 ? 's' : ''}
+                {items.some(item => item.status === 'error') ? 'Upload / retry' : 'Upload'} {readyCount} file{readyCount !== 1 ? 's' : ''}
               </>
             )}
           </Button>
@@ -201,4 +606,4 @@ const FileUpload = ({ onUploadComplete }: FileUploadProps) => {
   );
 };
 
-export default FileUpload;
\ No newline at end of file
+export default FileUpload;
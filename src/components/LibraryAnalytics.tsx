@@ -0,0 +1,264 @@
+import { useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { BarChart3, Loader2, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { useClusters, useDocuments, useQueryVolume } from '@/hooks/use-api';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { fillQueryVolume, lengthDistribution, typeBreakdown, uploadsOverTime } from '@/lib/analytics';
+import { fromDateParam } from '@/lib/queryFilters';
+
+const QUERY_VOLUME_DAYS = 30;
+
+const PALETTE = [
+  'hsl(var(--primary))',
+  'hsl(var(--accent))',
+  'hsl(var(--success))',
+  'hsl(var(--warning))',
+  'hsl(var(--destructive))',
+  'hsl(var(--muted-foreground))',
+];
+
+const uploadsConfig: ChartConfig = {
+  uploads: { label: 'Uploads', color: 'hsl(var(--primary))' },
+  total: { label: 'Library size', color: 'hsl(var(--accent))' },
+};
+
+const lengthConfig: ChartConfig = {
+  documents: { label: 'Documents', color: 'hsl(var(--accent))' },
+};
+
+const clusterConfig: ChartConfig = {
+  size: { label: 'Documents', color: 'hsl(var(--success))' },
+};
+
+const queryConfig: ChartConfig = {
+  search: { label: 'Search', color: 'hsl(var(--primary))' },
+  explore: { label: 'Explore', color: 'hsl(var(--accent))' },
+  think: { label: 'Think', color: 'hsl(var(--success))' },
+  ppt: { label: 'PPT', color: 'hsl(var(--warning))' },
+};
+
+const ChartPanel = ({ title, className = '', children }: { title: string; className?: string; children: React.ReactNode }) => (
+  <div className={`glass rounded-lg p-4 space-y-3 ${className}`}>
+    <p className="text-sm font-medium text-foreground">{title}</p>
+    {children}
+  </div>
+);
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <p className="text-sm text-muted-foreground text-center py-12">{message}</p>
+);
+
+const LibraryAnalytics = () => {
+  const documentsQuery = useDocuments();
+  const clustersQuery = useClusters();
+  const volumeQuery = useQueryVolume(QUERY_VOLUME_DAYS);
+  const showError = useErrorToast();
+
+  // Clusters and query volume are optional backend features, so only documents are required
+  const documents = useMemo(() => documentsQuery.data?.documents ?? [], [documentsQuery.data]);
+  const clusters = clustersQuery.error ? null : clustersQuery.data?.clusters ?? null;
+  const queryVolume = volumeQuery.error ? null : volumeQuery.data ?? null;
+  const loading = documentsQuery.isFetching || clustersQuery.isFetching || volumeQuery.isFetching;
+
+  const { error: documentsError, refetch: refetchDocuments } = documentsQuery;
+  useEffect(() => {
+    if (documentsError) showError(documentsError, { title: "Failed to load analytics", onRetry: () => refetchDocuments() });
+  }, [documentsError, showError, refetchDocuments]);
+
+  const refresh = () => {
+    documentsQuery.refetch();
+    clustersQuery.refetch();
+    volumeQuery.refetch();
+  };
+
+  const uploads = useMemo(() => uploadsOverTime(documents), [documents]);
+  const lengths = useMemo(() => lengthDistribution(documents), [documents]);
+  const types = useMemo(() => typeBreakdown(documents), [documents]);
+  const clusterSizes = useMemo(() => (
+    [...(clusters ?? [])]
+      .sort((a, b) => b.size - a.size)
+      .map(cluster => ({ name: cluster.label || `#${cluster.id}`, size: cluster.size }))
+  ), [clusters]);
+  const queries = useMemo(() => (
+    queryVolume
+      ? fillQueryVolume(queryVolume.days, QUERY_VOLUME_DAYS).map(day => ({
+          ...day,
+          label: format(fromDateParam(day.date), 'MMM d'),
+        }))
+      : []
+  ), [queryVolume]);
+
+  const typeConfig = useMemo<ChartConfig>(() => (
+    Object.fromEntries(types.map((share, index) => [
+      share.type,
+      { label: share.type, color: PALETTE[index % PALETTE.length] },
+    ]))
+  ), [types]);
+
+  const totalCharacters = documents.reduce((sum, doc) => sum + doc.content_length, 0);
+
+  return (
+    <Card className="interactive-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <BarChart3 className="w-5 h-5 text-primary" />
+            <span>Library Analytics</span>
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={refresh}
+            disabled={loading}
+            className="btn-glass"
+          >
+            {loading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4" />
+            )}
+            <span className="ml-2 hidden sm:inline">Refresh</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Statistics */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="glass rounded-lg p-3 text-center">
+            <div className="text-2xl font-bold text-primary">{documents.length}</div>
+            <div className="text-xs text-muted-foreground">Documents</div>
+          </div>
+          <div className="glass rounded-lg p-3 text-center">
+            <div className="text-2xl font-bold text-success">{totalCharacters.toLocaleString()}</div>
+            <div className="text-xs text-muted-foreground">Total Characters</div>
+          </div>
+          <div className="glass rounded-lg p-3 text-center">
+            <div className="text-2xl font-bold text-accent">{clusters ? clusters.length : '—'}</div>
+            <div className="text-xs text-muted-foreground">Clusters</div>
+          </div>
+          <div className="glass rounded-lg p-3 text-center">
+            <div className="text-2xl font-bold text-warning">{queryVolume ? queryVolume.total.toLocaleString() : '—'}</div>
+            <div className="text-xs text-muted-foreground">Queries ({QUERY_VOLUME_DAYS} days)</div>
+          </div>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <ChartPanel title="Uploads over time" className="md:col-span-2">
+            {uploads.length === 0 ? (
+              <EmptyChart message="No documents uploaded yet" />
+            ) : (
+              <ChartContainer config={uploadsConfig} className="aspect-auto h-64 w-full">
+                <ComposedChart data={uploads}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis yAxisId="uploads" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <YAxis yAxisId="total" orientation="right" allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar yAxisId="uploads" dataKey="uploads" fill="var(--color-uploads)" radius={4} />
+                  <Line yAxisId="total" dataKey="total" type="monotone" stroke="var(--color-total)" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ChartContainer>
+            )}
+          </ChartPanel>
+
+          <ChartPanel title="Document length (characters)">
+            {documents.length === 0 ? (
+              <EmptyChart message="No documents to measure" />
+            ) : (
+              <ChartContainer config={lengthConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={lengths}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="documents" fill="var(--color-documents)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </ChartPanel>
+
+          <ChartPanel title="File types">
+            {types.length === 0 ? (
+              <EmptyChart message="No documents to break down" />
+            ) : (
+              <ChartContainer config={typeConfig} className="aspect-auto h-56 w-full">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="type" hideLabel />} />
+                  <Pie data={types} dataKey="documents" nameKey="type" innerRadius={45} strokeWidth={2}>
+                    {types.map((share) => (
+                      <Cell key={share.type} fill={`var(--color-${share.type})`} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="type" />} />
+                </PieChart>
+              </ChartContainer>
+            )}
+          </ChartPanel>
+
+          <ChartPanel title="Cluster sizes">
+            {!clusters ? (
+              <EmptyChart message="Cluster data is not available from this backend" />
+            ) : clusterSizes.length === 0 ? (
+              <EmptyChart message="No clusters yet" />
+            ) : (
+              <ChartContainer config={clusterConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={clusterSizes}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="name" tickLine={false} axisLine={false} minTickGap={8} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="size" fill="var(--color-size)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </ChartPanel>
+
+          <ChartPanel title={`Query volume (last ${QUERY_VOLUME_DAYS} days)`}>
+            {!queryVolume ? (
+              <EmptyChart message="Query statistics are not available from this backend" />
+            ) : (
+              <ChartContainer config={queryConfig} className="aspect-auto h-56 w-full">
+                <BarChart data={queries}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="search" stackId="queries" fill="var(--color-search)" />
+                  <Bar dataKey="explore" stackId="queries" fill="var(--color-explore)" />
+                  <Bar dataKey="think" stackId="queries" fill="var(--color-think)" />
+                  <Bar dataKey="ppt" stackId="queries" fill="var(--color-ppt)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </ChartPanel>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LibraryAnalytics;
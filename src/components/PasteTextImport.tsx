@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { ClipboardPaste, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { useUploadQueue } from '@/hooks/use-upload-queue';
+
+// Keep file names readable and safe for any backend filesystem
+const toFileName = (title: string) => {
+  const slug = title
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  return `${slug || 'pasted-text'}.txt`;
+};
+
+const PasteTextImport = () => {
+  const [title, setTitle] = useState('');
+  const [source, setSource] = useState('');
+  const [content, setContent] = useState('');
+  const { submit } = useUploadQueue();
+  const { toast } = useToast();
+
+  const pasteFromClipboard = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      setContent(prev => (prev ? `${prev}\n${text}` : text));
+    } catch {
+      toast({
+        title: "Clipboard unavailable",
+        description: "Paste the text into the box with Ctrl+V instead",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!title.trim() || !content.trim()) {
+      toast({
+        title: "Title and text required",
+        description: "Give the document a title and paste some text",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const file = new File([content], toFileName(title), { type: 'text/plain' });
+    submit([{
+      file,
+      metadata: {
+        title: title.trim(),
+        source_type: 'paste',
+        source: source.trim() || undefined,
+      },
+    }]);
+    toast({
+      title: "Text queued",
+      description: `"${title.trim()}" is being uploaded as ${file.name}`,
+    });
+    setTitle('');
+    setSource('');
+    setContent('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="paste-title" className="text-sm font-medium text-foreground">
+            Title
+          </Label>
+          <Input
+            id="paste-title"
+            placeholder="Q3 vendor escalation email"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className="glass"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="paste-source" className="text-sm font-medium text-foreground">
+            Source <span className="text-muted-foreground font-normal">(optional)</span>
+          </Label>
+          <Input
+            id="paste-source"
+            placeholder="Email from legal@example.com"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            className="glass"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="paste-content" className="text-sm font-medium text-foreground">
+            Text
+          </Label>
+          <Button variant="ghost" size="sm" onClick={pasteFromClipboard} className="h-7 px-2 text-xs">
+            <ClipboardPaste className="w-3 h-3 mr-1" />
+            Paste from clipboard
+          </Button>
+        </div>
+        <Textarea
+          id="paste-content"
+          placeholder="Paste an email body, meeting notes or any other text..."
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          className="glass min-h-48"
+        />
+        <p className="text-xs text-muted-foreground">
+          {content.length.toLocaleString()} characters
+        </p>
+      </div>
+
+      <Button
+        onClick={handleSubmit}
+        disabled={!title.trim() || !content.trim()}
+        className="btn-hero w-full"
+      >
+        <Upload className="w-4 h-4 mr-2" />
+        Add as document
+      </Button>
+    </div>
+  );
+};
+
+export default PasteTextImport;
@@ -0,0 +1,43 @@
+import { CheckCircle2, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { QUERY_STAGE_LABELS, type QueryProgress } from '@/lib/queryStream';
+
+interface QueryProgressPanelProps {
+  progress: QueryProgress | null;
+  onCancel?: () => void;
+}
+
+const QueryProgressPanel = ({ progress, onCancel }: QueryProgressPanelProps) => (
+  <div className="glass rounded-lg p-3 flex items-center justify-between gap-3">
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+      {!progress || progress.stages.length === 0 ? (
+        <span className="flex items-center text-muted-foreground">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin text-primary" />
+          Processing your query...
+        </span>
+      ) : (
+        progress.stages.map((stage) => {
+          const active = stage === progress.stage;
+          return (
+            <span key={stage} className={`flex items-center ${active ? 'text-primary' : 'text-muted-foreground'}`}>
+              {active ? (
+                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+              ) : (
+                <CheckCircle2 className="w-4 h-4 mr-1 text-success" />
+              )}
+              {QUERY_STAGE_LABELS[stage]}
+            </span>
+          );
+        })
+      )}
+    </div>
+    {onCancel && (
+      <Button variant="outline" size="sm" onClick={onCancel} className="btn-glass flex-shrink-0">
+        <X className="w-4 h-4 mr-1" />
+        Cancel
+      </Button>
+    )}
+  </div>
+);
+
+export default QueryProgressPanel;
@@ -0,0 +1,205 @@
+import { useMemo, useState } from 'react';
+import type { DateRange } from 'react-day-picker';
+import { format } from 'date-fns';
+import { Calendar as CalendarIcon, Check, ChevronsUpDown, Filter, FolderOpen, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { useLibrary } from '@/hooks/use-library';
+import { getExtension } from '@/lib/fileTypes';
+import { compactFilters, fromDateParam, matchesFilters, toDateParam } from '@/lib/queryFilters';
+import type { DocumentInfo, QueryFilters } from '@/types/api';
+
+interface QueryScopePickerProps {
+  documents: DocumentInfo[];
+  filters: QueryFilters;
+  onChange: (filters: QueryFilters) => void;
+}
+
+const QueryScopePicker = ({ documents, filters, onChange }: QueryScopePickerProps) => {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const { tags, allTags, collections } = useLibrary();
+  const names = filters.names ?? [];
+
+  const extensions = useMemo(() => (
+    [...new Set(documents.map(doc => getExtension(doc.name)).filter(Boolean))].sort()
+  ), [documents]);
+
+  const matching = useMemo(() => (
+    documents.filter(doc => matchesFilters(doc, filters)).length
+  ), [documents, filters]);
+
+  const isScoped = compactFilters(filters) !== undefined;
+
+  const toggleName = (name: string) => {
+    onChange({
+      ...filters,
+      names: names.includes(name) ? names.filter(n => n !== name) : [...names, name],
+    });
+  };
+
+  // Tags and collections are local, so they are sent as the document names they cover
+  const addNames = (added: string[]) => {
+    const available = new Set(documents.map(doc => doc.name));
+    onChange({ ...filters, names: [...new Set([...names, ...added.filter(name => available.has(name))])] });
+  };
+
+  const dateRange: DateRange | undefined = filters.uploaded_from || filters.uploaded_to
+    ? {
+        from: filters.uploaded_from ? fromDateParam(filters.uploaded_from) : undefined,
+        to: filters.uploaded_to ? fromDateParam(filters.uploaded_to) : undefined,
+      }
+    : undefined;
+
+  const setDateRange = (range: DateRange | undefined) => {
+    onChange({
+      ...filters,
+      uploaded_from: range?.from ? toDateParam(range.from) : undefined,
+      // A single click selects a one-day range
+      uploaded_to: range?.to ? toDateParam(range.to) : range?.from ? toDateParam(range.from) : undefined,
+    });
+  };
+
+  const dateLabel = () => {
+    if (!dateRange?.from) return 'Any upload date';
+    const from = format(dateRange.from, 'MMM d, yyyy');
+    if (!dateRange.to || dateRange.to.getTime() === dateRange.from.getTime()) return from;
+    return `${from} – ${format(dateRange.to, 'MMM d, yyyy')}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium text-foreground flex items-center gap-2">
+          <Filter className="w-4 h-4" />
+          Scope
+        </Label>
+        {isScoped && (
+          <Button variant="ghost" size="sm" onClick={() => onChange({})} className="h-7 px-2 text-xs">
+            <X className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-2">
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" role="combobox" aria-expanded={pickerOpen} className="glass justify-between font-normal">
+              <span className="truncate">
+                {names.length === 0
+                  ? 'All documents'
+                  : names.length === 1
+                    ? names[0]
+                    : `${names.length} documents selected`}
+              </span>
+              <ChevronsUpDown className="w-4 h-4 ml-2 opacity-50 flex-shrink-0" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="glass-strong p-0 w-[var(--radix-popover-trigger-width)] min-w-72" align="start">
+            <Command>
+              <CommandInput placeholder="Find a document..." />
+              <CommandList>
+                <CommandEmpty>No documents found</CommandEmpty>
+                {collections.length > 0 && (
+                  <CommandGroup heading="Collections">
+                    {collections.map((collection) => (
+                      <CommandItem
+                        key={collection.id}
+                        value={`collection ${collection.name}`}
+                        onSelect={() => addNames(collection.documents)}
+                      >
+                        <FolderOpen className="w-4 h-4 mr-2" />
+                        <span className="truncate flex-1">{collection.name}</span>
+                        <span className="text-xs text-muted-foreground">{collection.documents.length}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+                {allTags.length > 0 && (
+                  <CommandGroup heading="Tags">
+                    {allTags.map((tag) => (
+                      <CommandItem
+                        key={tag}
+                        value={`tag ${tag}`}
+                        onSelect={() => addNames(Object.keys(tags).filter(name => tags[name].includes(tag)))}
+                      >
+                        <Tag className="w-4 h-4 mr-2" />
+                        <span className="truncate">{tag}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+                {(collections.length > 0 || allTags.length > 0) && <CommandSeparator />}
+                <CommandGroup heading="Documents">
+                  {documents.map((doc) => (
+                    <CommandItem
+                      key={doc.name}
+                      value={`${doc.name} ${doc.title ?? ''}`}
+                      onSelect={() => toggleName(doc.name)}
+                    >
+                      <Check className={`w-4 h-4 mr-2 ${names.includes(doc.name) ? 'opacity-100' : 'opacity-0'}`} />
+                      <span className="truncate">{doc.title || doc.name}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </CommandList>
+            </Command>
+          </PopoverContent>
+        </Popover>
+
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="glass justify-start font-normal">
+              <CalendarIcon className="w-4 h-4 mr-2" />
+              <span className="truncate">{dateLabel()}</span>
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="glass-strong w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              selected={dateRange}
+              onSelect={setDateRange}
+              numberOfMonths={2}
+              disabled={{ after: new Date() }}
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {extensions.length > 1 && (
+        <ToggleGroup
+          type="multiple"
+          value={filters.extensions ?? []}
+          onValueChange={(value) => onChange({ ...filters, extensions: value })}
+          className="justify-start flex-wrap"
+        >
+          {extensions.map((extension) => (
+            <ToggleGroupItem key={extension} value={extension} size="sm" variant="outline" className="h-7 text-xs">
+              {extension.toUpperCase().slice(1)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {isScoped && (
+        <p className={`text-xs ${matching === 0 ? 'text-destructive' : 'text-accent'}`}>
+          Scoped to {matching} of {documents.length} document{documents.length === 1 ? '' : 's'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default QueryScopePicker;
@@ -0,0 +1,72 @@
+import { ArrowDownRight, ArrowUpRight, Minus, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { resultKey, resultTitle } from '@/lib/resultDiff';
+import type { ResultDiff } from '@/types/history';
+
+interface ResultDiffViewProps {
+  diff: ResultDiff;
+}
+
+const formatScore = (score: number) => `${(score * 100).toFixed(0)}%`;
+
+const ResultDiffView = ({ diff }: ResultDiffViewProps) => {
+  const hasChanges = diff.appeared.length + diff.disappeared.length + diff.changed.length > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline" className="text-xs bg-success/10 text-success border-success/30">
+          +{diff.appeared.length} appeared
+        </Badge>
+        <Badge variant="outline" className="text-xs bg-destructive/10 text-destructive border-destructive/30">
+          −{diff.disappeared.length} disappeared
+        </Badge>
+        <Badge variant="outline" className="text-xs bg-warning/10 text-warning border-warning/30">
+          {diff.changed.length} changed score
+        </Badge>
+        <Badge variant="outline" className="text-xs">
+          {diff.unchanged} unchanged
+        </Badge>
+      </div>
+
+      {!hasChanges && (
+        <p className="text-sm text-muted-foreground">The results are the same as the previous run.</p>
+      )}
+
+      {diff.appeared.map((result) => (
+        <div key={`appeared-${resultKey(result)}`} className="flex items-center space-x-2 text-sm">
+          <Plus className="w-4 h-4 text-success flex-shrink-0" />
+          <span className="truncate flex-1 text-foreground">{resultTitle(result)}</span>
+          {result.similarity !== undefined && (
+            <span className="text-xs text-muted-foreground">{formatScore(result.similarity)}</span>
+          )}
+        </div>
+      ))}
+
+      {diff.disappeared.map((result) => (
+        <div key={`disappeared-${resultKey(result)}`} className="flex items-center space-x-2 text-sm">
+          <Minus className="w-4 h-4 text-destructive flex-shrink-0" />
+          <span className="truncate flex-1 text-muted-foreground line-through">{resultTitle(result)}</span>
+          {result.similarity !== undefined && (
+            <span className="text-xs text-muted-foreground">{formatScore(result.similarity)}</span>
+          )}
+        </div>
+      ))}
+
+      {diff.changed.map((change) => {
+        const Icon = change.after > change.before ? ArrowUpRight : ArrowDownRight;
+        return (
+          <div key={`changed-${change.key}`} className="flex items-center space-x-2 text-sm">
+            <Icon className={`w-4 h-4 flex-shrink-0 ${change.after > change.before ? 'text-success' : 'text-warning'}`} />
+            <span className="truncate flex-1 text-foreground">{change.title}</span>
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {formatScore(change.before)} → {formatScore(change.after)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ResultDiffView;
@@ -12,7 +12,10 @@ import {
   Loader2,
   Presentation,
   Eye,
-  FileDown
+  FileDown,
+  Filter,
+  GitCompare,
+  MessagesSquare
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,21 +23,42 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import QueryProgressPanel from '@/components/QueryProgressPanel';
+import ResultDiffView from '@/components/ResultDiffView';
+import { useErrorToast } from '@/hooks/use-error-toast';
 import { useToast } from '@/hooks/use-toast';
+import type { QueryProgress } from '@/lib/queryStream';
+import { diffResults } from '@/lib/resultDiff';
 import { apiService } from '@/services/api';
-import type { QueryResponse } from '@/types/api';
+import type { QueryResponse, QueryScope } from '@/types/api';
 
 interface ResultsDisplayProps {
   results: QueryResponse | null;
+  // Last run of the same query, for the "changes since last run" summary
+  previous?: QueryResponse | null;
   loading?: boolean;
+  // Stages and partial results of the query in flight, shown while `loading`
+  progress?: QueryProgress | null;
+  onCancel?: () => void;
+  // Starts a follow-up conversation from a Think result
+  onFollowUp?: () => void;
 }
 
-const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
+const ResultsDisplay = ({
+  results: finalResults,
+  previous,
+  loading,
+  progress,
+  onCancel,
+  onFollowUp,
+}: ResultsDisplayProps) => {
   const [expandedResults, setExpandedResults] = useState<Set<number>>(new Set());
   const [downloadingPPT, setDownloadingPPT] = useState<string | null>(null);
   const [openingPPT, setOpeningPPT] = useState<string | null>(null);
   const [expandedWebSections, setExpandedWebSections] = useState<Set<string>>(new Set());
   const { toast } = useToast();
+  const showError = useErrorToast();
 
   const toggleExpanded = (index: number) => {
     const newExpanded = new Set(expandedResults);
@@ -83,11 +107,7 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
         description: "PowerPoint presentation is being downloaded",
       });
     } catch (error) {
-      toast({
-        title: "Download failed",
-        description: error instanceof Error ? error.message : "Failed to download presentation",
-        variant: "destructive",
-      });
+      showError(error, { title: "Download failed", onRetry: () => downloadPPT(path) });
     } finally {
       setDownloadingPPT(null);
     }
@@ -112,11 +132,7 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
         window.URL.revokeObjectURL(url);
       }, 10000);
     } catch (error) {
-      toast({
-        title: "Failed to open",
-        description: error instanceof Error ? error.message : "Failed to open presentation",
-        variant: "destructive",
-      });
+      showError(error, { title: "Failed to open", onRetry: () => openPPT(path) });
     } finally {
       setOpeningPPT(null);
     }
@@ -236,14 +252,19 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
     }
   };
 
-  if (loading) {
+  // Partial results are rendered like final ones as they stream in
+  const streaming = Boolean(loading && progress && progress.partial.results.length > 0);
+  const results = streaming && progress ? progress.partial : finalResults;
+
+  if (loading && !streaming) {
     return (
       <Card className="interactive-card">
-        <CardContent className="flex items-center justify-center py-12">
+        <CardContent className="py-12 space-y-6">
           <div className="text-center space-y-3">
             <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto" />
             <p className="text-muted-foreground">Processing your query...</p>
           </div>
+          {(progress || onCancel) && <QueryProgressPanel progress={progress ?? null} onCancel={onCancel} />}
         </CardContent>
       </Card>
     );
@@ -269,6 +290,20 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
 
   const badgeStyle = getActionBadge(results.action);
 
+  // One line per active filter, shown in the scope chip's tooltip
+  const describeScope = (scope: QueryScope) => {
+    const lines: string[] = [];
+    const { names, extensions, uploaded_from, uploaded_to } = scope.filters;
+    if (names?.length) {
+      lines.push(names.length > 5 ? `${names.slice(0, 5).join(', ')} and ${names.length - 5} more` : names.join(', '));
+    }
+    if (extensions?.length) lines.push(`Types: ${extensions.map(ext => ext.toUpperCase().slice(1)).join(', ')}`);
+    if (uploaded_from || uploaded_to) {
+      lines.push(`Uploaded ${uploaded_from === uploaded_to ? `on ${uploaded_from}` : `${uploaded_from ?? 'any time'} to ${uploaded_to ?? 'now'}`}`);
+    }
+    return lines;
+  };
+
   return (
     <Card className="interactive-card">
       <CardHeader>
@@ -285,6 +320,21 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
               >
                 {results.action.toUpperCase()}
               </Badge>
+              {results.scope && (
+                <Tooltip>
+                  <TooltipTrigger className="cursor-default">
+                    <Badge variant="outline" className="bg-accent/10 text-accent border-accent/30">
+                      <Filter className="w-3 h-3 mr-1" />
+                      Scoped to {results.scope.documents.length} document{results.scope.documents.length === 1 ? '' : 's'}
+                    </Badge>
+                  </TooltipTrigger>
+                  <TooltipContent className="max-w-xs space-y-1">
+                    {describeScope(results.scope).map((line) => (
+                      <p key={line} className="text-xs break-words">{line}</p>
+                    ))}
+                  </TooltipContent>
+                </Tooltip>
+              )}
               {results.results.length > 0 && (
                 <Badge variant="outline" className="bg-success/10 text-success border-success/30">
                   {results.results.length} result{results.results.length > 1 ? 's' : ''}
@@ -293,6 +343,8 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
             </div>
           </div>
 
+          {streaming && <QueryProgressPanel progress={progress ?? null} onCancel={onCancel} />}
+
           {/* Query Info */}
           <div className="glass rounded-lg p-3 space-y-2">
             <div className="flex items-start justify-between">
@@ -330,6 +382,32 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
               <p className="text-sm">{results.message}</p>
             </div>
           )}
+
+          {/* Follow-up Conversation */}
+          {onFollowUp && !streaming && results.action === 'think' && results.success && (
+            <Button variant="outline" size="sm" onClick={onFollowUp} className="btn-glass w-full">
+              <MessagesSquare className="w-4 h-4 mr-2 text-success" />
+              Ask a follow-up question
+            </Button>
+          )}
+
+          {/* Changes Since Last Run */}
+          {previous && !streaming && (
+            <Collapsible className="glass rounded-lg p-3">
+              <CollapsibleTrigger asChild>
+                <button className="w-full flex items-center justify-between text-sm font-medium text-foreground">
+                  <span className="flex items-center space-x-2">
+                    <GitCompare className="w-4 h-4 text-primary" />
+                    <span>Changes since last run ({formatDate(previous.timestamp)})</span>
+                  </span>
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-3">
+                <ResultDiffView diff={diffResults(previous, results)} />
+              </CollapsibleContent>
+            </Collapsible>
+          )}
         </div>
       </CardHeader>
 
@@ -604,6 +682,7 @@ const ResultsDisplay = ({ results, loading }: ResultsDisplayProps) => {
                           <p className="text-sm font-semibold text-foreground">Insights</p>
                           <div className="glass rounded-lg p-3 text-sm text-foreground whitespace-pre-wrap">
                             {result.metadata.refined_insight}
+                            {streaming && <span className="animate-pulse text-primary">▍</span>}
                           </div>
                         </div>
                       </>
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Bookmark, Braces } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useSavedSearches } from '@/hooks/use-saved-searches';
+import { templatePlaceholders } from '@/lib/templates';
+import type { SavedSearchInput } from '@/types/savedSearch';
+
+interface SaveSearchDialogProps {
+  draft: SavedSearchInput;
+  // Set when editing an existing saved search rather than creating one
+  savedId?: string;
+  onClose: () => void;
+}
+
+const SaveSearchDialog = ({ draft, savedId, onClose }: SaveSearchDialogProps) => {
+  const { save, update } = useSavedSearches();
+  const [name, setName] = useState(draft.name);
+  const [query, setQuery] = useState(draft.query);
+
+  const placeholders = templatePlaceholders(query);
+  const canSave = name.trim() !== '' && query.trim() !== '';
+
+  const handleSave = () => {
+    if (!canSave) return;
+    if (savedId) update(savedId, { name, query });
+    else save({ ...draft, name, query });
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="glass-strong border-border/50 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Bookmark className="w-5 h-5 text-primary" />
+            <span>{savedId ? 'Edit Saved Search' : 'Save Search'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Wrap parts of the query in braces, like {'{document}'} or {'{quarter}'}, to turn it into a template
+            that asks for those values each time it is run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name" className="text-sm font-medium text-foreground">Name</Label>
+            <Input
+              id="saved-search-name"
+              placeholder="e.g. Quarterly risks"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="glass"
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-query" className="text-sm font-medium text-foreground">Query</Label>
+            <Textarea
+              id="saved-search-query"
+              placeholder="Risks in {document} for {quarter}"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="glass min-h-24 resize-none"
+            />
+            {placeholders.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <Braces className="w-3 h-3" />
+                <span>Placeholders:</span>
+                {placeholders.map((placeholder) => (
+                  <Badge key={placeholder} variant="secondary" className="text-xs">{placeholder}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span>Runs as</span>
+            <Badge variant="outline" className="text-xs">{draft.action.toUpperCase()}</Badge>
+            <span>≥ {draft.threshold}</span>
+            {draft.translate_to !== 'en' && <span>translated to {draft.translate_to}</span>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} className="btn-glass">Cancel</Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            <Bookmark className="w-4 h-4 mr-2" />
+            {savedId ? 'Save changes' : 'Save search'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveSearchDialog;
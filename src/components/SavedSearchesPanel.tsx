@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react';
+import { Bookmark, Braces, Languages, Pencil, Play, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import SaveSearchDialog from '@/components/SaveSearchDialog';
+import { useSavedSearches } from '@/hooks/use-saved-searches';
+import { templatePlaceholders } from '@/lib/templates';
+import type { SavedSearch } from '@/types/savedSearch';
+
+interface SavedSearchesPanelProps {
+  onSelect: (saved: SavedSearch) => void;
+}
+
+const SavedSearchesPanel = ({ onSelect }: SavedSearchesPanelProps) => {
+  const { savedSearches, remove } = useSavedSearches();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [editing, setEditing] = useState<SavedSearch | null>(null);
+
+  const visibleSearches = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    return term
+      ? savedSearches.filter(saved => (
+          saved.name.toLowerCase().includes(term) || saved.query.toLowerCase().includes(term)
+        ))
+      : savedSearches;
+  }, [savedSearches, filter]);
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetTrigger asChild>
+          <Button variant="outline" size="sm" className="btn-glass">
+            <Bookmark className="w-4 h-4 mr-2" />
+            Saved
+            {savedSearches.length > 0 && (
+              <Badge variant="secondary" className="ml-2 text-xs">{savedSearches.length}</Badge>
+            )}
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="glass-strong border-border/50 w-full sm:max-w-lg flex flex-col">
+          <SheetHeader>
+            <SheetTitle className="flex items-center space-x-2">
+              <Bookmark className="w-5 h-5 text-primary" />
+              <span>Saved Searches</span>
+            </SheetTitle>
+            <SheetDescription>
+              Run a saved search in one click. Templates ask for their {'{placeholders}'} first.
+            </SheetDescription>
+          </SheetHeader>
+
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Filter by name or query..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="glass pl-9"
+            />
+          </div>
+
+          <ScrollArea className="flex-1 -mr-4">
+            <div className="space-y-2 pr-4">
+              {visibleSearches.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-8">
+                  {savedSearches.length === 0
+                    ? 'No saved searches yet. Use "Save" next to the query to add one.'
+                    : 'No saved searches match the filter'}
+                </p>
+              )}
+              {visibleSearches.map((saved) => {
+                const placeholders = templatePlaceholders(saved.query);
+
+                return (
+                  <div key={saved.id} className="glass rounded-lg p-3 space-y-2">
+                    <div className="flex items-center space-x-2">
+                      <p className="font-medium text-sm text-foreground truncate flex-1">{saved.name}</p>
+                      {placeholders.length > 0 && (
+                        <Badge variant="secondary" className="text-xs">
+                          <Braces className="w-3 h-3 mr-1" />
+                          Template
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{saved.query}</p>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline" className="text-xs">{saved.action.toUpperCase()}</Badge>
+                      <span>≥ {saved.threshold}</span>
+                      {saved.translate_to !== 'en' && (
+                        <span className="flex items-center">
+                          <Languages className="w-3 h-3 mr-1" />
+                          {saved.translate_to}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          onSelect(saved);
+                          setOpen(false);
+                        }}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <Play className="w-3 h-3 mr-1" />
+                        {placeholders.length > 0 ? 'Fill in' : 'Run'}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditing(saved)}
+                        className="h-7 px-2 text-xs"
+                      >
+                        <Pencil className="w-3 h-3 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => remove(saved.id)}
+                        className="h-7 w-7 p-0 ml-auto hover:bg-destructive/10 hover:text-destructive"
+                        title="Delete saved search"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        </SheetContent>
+      </Sheet>
+
+      {editing && (
+        <SaveSearchDialog draft={editing} savedId={editing.id} onClose={() => setEditing(null)} />
+      )}
+    </>
+  );
+};
+
+export default SavedSearchesPanel;
@@ -0,0 +1,183 @@
+import { useMemo, useState } from 'react';
+import { History, RotateCw, Eye, Trash2, GitCompare, Search, Languages, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import ResultDiffView from '@/components/ResultDiffView';
+import { useSearchHistory } from '@/hooks/use-search-history';
+import { diffResults } from '@/lib/resultDiff';
+import type { SearchHistoryEntry } from '@/types/history';
+
+interface SearchHistoryPanelProps {
+  onView: (entry: SearchHistoryEntry) => void;
+  onRerun: (entry: SearchHistoryEntry) => void;
+}
+
+const SearchHistoryPanel = ({ onView, onRerun }: SearchHistoryPanelProps) => {
+  const { entries, findPreviousRun, remove, clear } = useSearchHistory();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  const visibleEntries = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    return term ? entries.filter(entry => entry.request.query.toLowerCase().includes(term)) : entries;
+  }, [entries, filter]);
+
+  const formatDate = (dateString: string) => {
+    try {
+      return new Date(dateString).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    } catch {
+      return dateString;
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="btn-glass">
+          <History className="w-4 h-4 mr-2" />
+          History
+          {entries.length > 0 && (
+            <Badge variant="secondary" className="ml-2 text-xs">{entries.length}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="glass-strong border-border/50 w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-primary" />
+            <span>Search History</span>
+          </SheetTitle>
+          <SheetDescription>
+            Queries run against this backend in this browser, newest first. Re-run one to see what changed.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="relative">
+          <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Filter by query..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="glass pl-9"
+          />
+        </div>
+
+        <ScrollArea className="flex-1 -mr-4">
+          <div className="space-y-2 pr-4">
+            {visibleEntries.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                {entries.length === 0 ? 'No searches yet' : 'No searches match the filter'}
+              </p>
+            )}
+            {visibleEntries.map((entry) => {
+              const previous = findPreviousRun(entry.request, entry);
+              const isComparing = comparingId === entry.id;
+
+              return (
+                <div key={entry.id} className="glass rounded-lg p-3 space-y-2">
+                  <p className="font-medium text-sm text-foreground line-clamp-2">{entry.request.query}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant="outline" className="text-xs">{entry.request.action.toUpperCase()}</Badge>
+                    <span className="flex items-center">
+                      <Clock className="w-3 h-3 mr-1" />
+                      {formatDate(entry.created_at)}
+                    </span>
+                    <span>{entry.response.results.length} result{entry.response.results.length === 1 ? '' : 's'}</span>
+                    {entry.request.threshold !== undefined && <span>≥ {entry.request.threshold}</span>}
+                    {entry.request.max_results !== undefined && <span>top {entry.request.max_results}</span>}
+                    {entry.request.translate_to && entry.request.translate_to !== 'en' && (
+                      <span className="flex items-center">
+                        <Languages className="w-3 h-3 mr-1" />
+                        {entry.request.translate_to}
+                      </span>
+                    )}
+                    {entry.response.scope && (
+                      <span>{entry.response.scope.documents.length} docs in scope</span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        onView(entry);
+                        setOpen(false);
+                      }}
+                      className="h-7 px-2 text-xs"
+                    >
+                      <Eye className="w-3 h-3 mr-1" />
+                      View
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        onRerun(entry);
+                        setOpen(false);
+                      }}
+                      className="h-7 px-2 text-xs"
+                    >
+                      <RotateCw className="w-3 h-3 mr-1" />
+                      Re-run
+                    </Button>
+                    {previous && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setComparingId(isComparing ? null : entry.id)}
+                        className={`h-7 px-2 text-xs ${isComparing ? 'text-primary' : ''}`}
+                      >
+                        <GitCompare className="w-3 h-3 mr-1" />
+                        Compare
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => remove(entry.id)}
+                      className="h-7 w-7 p-0 ml-auto hover:bg-destructive/10 hover:text-destructive"
+                      title="Remove from history"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                  {isComparing && previous && (
+                    <div className="border-t border-border/50 pt-2 space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        Compared with the run from {formatDate(previous.created_at)}
+                      </p>
+                      <ResultDiffView diff={diffResults(previous.response, entry.response)} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {entries.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clear}
+            className="border-destructive/30 text-destructive hover:bg-destructive/10"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear history
+          </Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default SearchHistoryPanel;
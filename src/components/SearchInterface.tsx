@@ -1,18 +1,73 @@
-import { useState, useEffect } from 'react';
-import { Search, Brain, Compass, FileSpreadsheet, Loader2, Languages } from 'lucide-react';
+import { useState } from 'react';
+import { Search, Brain, Compass, FileSpreadsheet, Loader2, Languages, BookmarkPlus, MessagesSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import AdvancedQueryOptions from '@/components/AdvancedQueryOptions';
+import QueryScopePicker from '@/components/QueryScopePicker';
+import SaveSearchDialog from '@/components/SaveSearchDialog';
+import SavedSearchesPanel from '@/components/SavedSearchesPanel';
+import SearchHistoryPanel from '@/components/SearchHistoryPanel';
+import TemplateFillDialog from '@/components/TemplateFillDialog';
+import { useDocuments, useStreamQuery, useSupportedLanguages } from '@/hooks/use-api';
+import { useConversations } from '@/hooks/use-conversations';
+import { useErrorToast } from '@/hooks/use-error-toast';
 import { useToast } from '@/hooks/use-toast';
-import { apiService } from '@/services/api';
-import type { QueryRequest, QueryResponse, SupportedLanguagesResponse } from '@/types/api';
+import { compactFilters, matchesFilters } from '@/lib/queryFilters';
+import { applyStreamEvent, initialProgress, type QueryProgress } from '@/lib/queryStream';
+import { templatePlaceholders } from '@/lib/templates';
+import { DEFAULT_QUERY_THRESHOLD, isCancelledRequest } from '@/services/api';
+import { searchHistory } from '@/services/searchHistory';
+import type {
+  DocumentInfo,
+  QueryFilters,
+  QueryOptions,
+  QueryRequest,
+  QueryResponse,
+  SupportedLanguagesResponse,
+} from '@/types/api';
+import type { SearchHistoryEntry } from '@/types/history';
+import type { SavedSearch, SavedSearchInput } from '@/types/savedSearch';
 
 interface SearchInterfaceProps {
-  onSearchResults?: (results: QueryResponse) => void;
+  // `request` is what produced the results; `previous` is the last run of the
+  // same request, when there is one in the history
+  onSearchResults?: (results: QueryResponse, request: QueryRequest, previous?: QueryResponse) => void;
+  // Streaming lifecycle: `cancel` aborts the request, progress carries partial results
+  onSearchStart?: (cancel: () => void) => void;
+  onSearchProgress?: (progress: QueryProgress) => void;
+  onSearchComplete?: () => void;
+  // Restricts the query to part of the library; empty searches everything
+  filters?: QueryFilters;
+  onFiltersChange?: (filters: QueryFilters) => void;
+  // Threshold and result limit from the advanced options panel
+  options?: QueryOptions;
+  onOptionsChange?: (options: QueryOptions) => void;
+  // The response on screen, used to preview how many results a threshold lets through
+  lastResults?: QueryResponse | null;
+  // Reopens a stored Think conversation
+  onOpenConversation?: (id: string) => void;
 }
 
+const FALLBACK_LANGUAGES: SupportedLanguagesResponse = {
+  languages: {
+    'en': 'English',
+    'hi': 'Hindi',
+    'fr': 'French',
+    'es': 'Spanish',
+    'de': 'German',
+    'ja': 'Japanese',
+    'ko': 'Korean',
+    'zh': 'Chinese'
+  },
+  default: 'en',
+  note: 'Translation available for search and think actions only'
+};
+
+const NO_DOCUMENTS: DocumentInfo[] = [];
+
 const actions = [
   {
     value: 'search',
@@ -48,76 +103,76 @@ const actions = [
   },
 ];
 
-const SearchInterface = ({ onSearchResults }: SearchInterfaceProps) => {
+const SearchInterface = ({
+  onSearchResults,
+  onSearchStart,
+  onSearchProgress,
+  onSearchComplete,
+  filters = {},
+  onFiltersChange,
+  options = { threshold: DEFAULT_QUERY_THRESHOLD },
+  onOptionsChange,
+  lastResults,
+  onOpenConversation,
+}: SearchInterfaceProps) => {
   const [query, setQuery] = useState('');
   const [selectedAction, setSelectedAction] = useState<'search' | 'explore' | 'think' | 'ppt'>('search');
   const [translateTo, setTranslateTo] = useState('en');
   const [loading, setLoading] = useState(false);
-  const [languages, setLanguages] = useState<SupportedLanguagesResponse | null>(null);
+  const languagesQuery = useSupportedLanguages();
+  // Documents only feed the scope picker, so failures just leave it empty
+  const { data: documentsResponse } = useDocuments();
+  const streamQuery = useStreamQuery();
+  const [saveDraft, setSaveDraft] = useState<SavedSearchInput | null>(null);
+  const [fillingTemplate, setFillingTemplate] = useState<SavedSearch | null>(null);
+  const { conversations } = useConversations();
   const { toast } = useToast();
+  const showError = useErrorToast();
 
-  useEffect(() => {
-    loadLanguages();
-  }, []);
-
-  const loadLanguages = async () => {
-    try {
-      const response = await apiService.getSupportedLanguages();
-      console.log('Languages loaded:', response);
-      setLanguages(response);
-    } catch (error) {
-      console.error('Failed to load languages:', error);
-      // Fallback to default languages if API fails
-      setLanguages({
-        languages: {
-          'en': 'English',
-          'hi': 'Hindi',
-          'fr': 'French',
-          'es': 'Spanish',
-          'de': 'German',
-          'ja': 'Japanese',
-          'ko': 'Korean',
-          'zh': 'Chinese'
-        },
-        default: 'en',
-        note: 'Translation available for search and think actions only'
-      });
-    }
-  };
-
-  const handleSearch = async () => {
-    if (!query.trim()) {
-      toast({
-        title: "Query required",
-        description: "Please enter a search query",
-        variant: "destructive",
-      });
-      return;
-    }
+  // Fallback to default languages if API fails
+  const languages = languagesQuery.data ?? (languagesQuery.isError ? FALLBACK_LANGUAGES : null);
+  const documents = documentsResponse?.documents ?? NO_DOCUMENTS;
 
+  // Starting a query cancels any query still running, including one started
+  // before this tab was last unmounted
+  const runQuery = async (request: QueryRequest) => {
+    const controller = new AbortController();
+    let superseded = false;
+    let progress = initialProgress(request);
     setLoading(true);
+    onSearchStart?.(() => controller.abort());
     try {
-      const request: QueryRequest = {
-        query: query.trim(),
-        action: selectedAction,
-        threshold: 0.35,
-        translate_to: translateTo,
-      };
-
       console.log('Sending request:', request);
-      const response = await apiService.query(request);
+      const response = await streamQuery.mutateAsync({
+        request,
+        onEvent: (event) => {
+          progress = applyStreamEvent(progress, event);
+          onSearchProgress?.(progress);
+        },
+        signal: controller.signal,
+      });
       console.log('Received response:', response);
       
       if (response.success) {
         let description = response.message;
-        if (response.translation && translateTo !== 'en') {
+        if (response.translation && request.translate_to !== 'en') {
           description += ` (Translated to ${response.translation.target_language_name})`;
         }
         toast({
           title: "Query completed",
           description: description,
         });
-        onSearchResults?.(response);
+        const scopeFilters = request.filters;
+        const results: QueryResponse = scopeFilters ? {
+          ...response,
+          scope: {
+            filters: scopeFilters,
+            documents: documents.filter(doc => matchesFilters(doc, scopeFilters)).map(doc => doc.name),
+          },
+        } : response;
+        const previous = searchHistory.findPreviousRun(request);
+        searchHistory.record(request, results);
+        onSearchResults?.(results, request, previous?.response);
       } else {
         toast({
           title: "Query failed",
@@ -126,14 +181,79 @@ const SearchInterface = ({ onSearchResults }: SearchInterfaceProps) => {
         });
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        toast({
+          title: "Query cancelled",
+          description: "The query was stopped before it finished",
+        });
+      } else if (isCancelledRequest(error)) {
+        // A newer query replaced this one and now owns the results view
+        superseded = true;
+      } else {
+        showError(error, { title: "Search error", onRetry: () => runQuery(request) });
+      }
+    } finally {
+      setLoading(false);
+      if (!superseded) onSearchComplete?.();
+    }
+  };
+
+  const handleSearch = () => {
+    if (!query.trim()) {
       toast({
-        title: "Search error",
-        description: error instanceof Error ? error.message : "Failed to execute query",
+        title: "Query required",
+        description: "Please enter a search query",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
+      return;
     }
+
+    runQuery({
+      query: query.trim(),
+      action: selectedAction,
+      threshold: options.threshold,
+      max_results: options.max_results,
+      translate_to: translateTo,
+      filters: compactFilters(filters),
+    });
+  };
+
+  // Re-running restores the form so the query can be tweaked afterwards
+  const handleRerun = (entry: SearchHistoryEntry) => {
+    setQuery(entry.request.query);
+    setSelectedAction(entry.request.action);
+    if (entry.request.translate_to) setTranslateTo(entry.request.translate_to);
+    onOptionsChange?.({
+      threshold: entry.request.threshold ?? DEFAULT_QUERY_THRESHOLD,
+      max_results: entry.request.max_results,
+    });
+    onFiltersChange?.(entry.request.filters ?? {});
+    runQuery(entry.request);
+  };
+
+  const handleView = (entry: SearchHistoryEntry) => {
+    onSearchResults?.(entry.response, entry.request, searchHistory.findPreviousRun(entry.request, entry)?.response);
+  };
+
+  // Saved searches run against the current scope with their own action and settings
+  const runSavedSearch = (saved: SavedSearch, savedQuery: string) => {
+    setQuery(savedQuery);
+    setSelectedAction(saved.action);
+    setTranslateTo(saved.translate_to);
+    onOptionsChange?.({ ...options, threshold: saved.threshold });
+    runQuery({
+      query: savedQuery,
+      action: saved.action,
+      threshold: saved.threshold,
+      max_results: options.max_results,
+      translate_to: saved.translate_to,
+      filters: compactFilters(filters),
+    });
+  };
+
+  const handleSelectSaved = (saved: SavedSearch) => {
+    if (templatePlaceholders(saved.query).length > 0) setFillingTemplate(saved);
+    else runSavedSearch(saved, saved.query);
   };
 
   const currentAction = actions.find(a => a.value === selectedAction);
@@ -143,7 +263,13 @@ const SearchInterface = ({ onSearchResults }: SearchInterfaceProps) => {
     <div className="space-y-6">
       {/* Action Selection */}
       <div>
-        <Label className="text-sm font-medium text-foreground mb-3 block">Choose Action</Label>
+        <div className="flex items-center justify-between mb-3">
+          <Label className="text-sm font-medium text-foreground">Choose Action</Label>
+          <div className="flex items-center space-x-2">
+            <SavedSearchesPanel onSelect={handleSelectSaved} />
+            <SearchHistoryPanel onView={handleView} onRerun={handleRerun} />
+          </div>
+        </div>
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
           {actions.map((action) => {
             const Icon = action.icon;
@@ -178,11 +304,48 @@ const SearchInterface = ({ onSearchResults }: SearchInterfaceProps) => {
         </div>
       </div>
 
+      {/* Conversations */}
+      {selectedAction === 'think' && onOpenConversation && conversations.length > 0 && (
+        <div className="flex items-center space-x-2">
+          <MessagesSquare className="w-4 h-4 text-success flex-shrink-0" />
+          <Select value="" onValueChange={onOpenConversation}>
+            <SelectTrigger className="glass">
+              <SelectValue placeholder={`Continue a conversation (${conversations.length})`} />
+            </SelectTrigger>
+            <SelectContent className="glass-strong">
+              {conversations.map((conversation) => (
+                <SelectItem key={conversation.id} value={conversation.id}>
+                  <span className="truncate">{conversation.title}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Query Input */}
       <div className="space-y-2">
-        <Label htmlFor="query" className="text-sm font-medium text-foreground">
-          Query
-        </Label>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="query" className="text-sm font-medium text-foreground">
+            Query
+          </Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSaveDraft({
+              name: '',
+              query: query.trim(),
+              action: selectedAction,
+              threshold: options.threshold,
+              translate_to: supportsTranslation ? translateTo : 'en',
+            })}
+            disabled={!query.trim()}
+            className="h-7 px-2 text-xs"
+          >
+            <BookmarkPlus className="w-3 h-3 mr-1" />
+            Save
+          </Button>
+        </div>
         <Textarea
           id="query"
           placeholder={`Enter your ${selectedAction} query...`}
@@ -201,6 +364,16 @@ const SearchInterface = ({ onSearchResults }: SearchInterfaceProps) => {
         </p>
       </div>
 
+      {/* Scope */}
+      {onFiltersChange && (
+        <QueryScopePicker documents={documents} filters={filters} onChange={onFiltersChange} />
+      )}
+
+      {/* Advanced Options */}
+      {onOptionsChange && (
+        <AdvancedQueryOptions options={options} onChange={onOptionsChange} lastResults={lastResults} />
+      )}
+
       {/* Language Selection */}
       {supportsTranslation && languages && (
         <div className="space-y-2">
@@ -251,6 +424,16 @@ const SearchInterface = ({ onSearchResults }: SearchInterfaceProps) => {
           </>
         )}
       </Button>
+
+      {saveDraft && <SaveSearchDialog draft={saveDraft} onClose={() => setSaveDraft(null)} />}
+      {fillingTemplate && (
+        <TemplateFillDialog
+          template={fillingTemplate}
+          documents={documents}
+          onSubmit={(filled) => runSavedSearch(fillingTemplate, filled)}
+          onClose={() => setFillingTemplate(null)}
+        />
+      )}
     </div>
   );
 };
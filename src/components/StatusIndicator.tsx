@@ -14,64 +14,38 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { useToast } from '@/hooks/use-toast';
-import { apiService } from '@/services/api';
-import type { HealthResponse } from '@/types/api';
+import { useBackendProfiles } from '@/hooks/use-backend-profile';
+import { useHealth } from '@/hooks/use-api';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { isCancelledRequest } from '@/services/api';
 
-interface StatusIndicatorProps {
-  onStatusChange?: (status: HealthResponse) => void;
-}
-
-const StatusIndicator = ({ onStatusChange }: StatusIndicatorProps) => {
-  const [health, setHealth] = useState<HealthResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+const StatusIndicator = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const { toast } = useToast();
+  // Keyed by backend profile, so switching profiles re-probes from scratch
+  const { data: health = null, isFetching: loading, dataUpdatedAt, error, errorUpdatedAt, refetch } = useHealth({ enabled: isOnline });
+  const lastUpdated = dataUpdatedAt ? new Date(dataUpdatedAt) : null;
+  const { activeProfile } = useBackendProfiles();
+  const showError = useErrorToast();
 
   useEffect(() => {
-    checkHealth();
-    
-    // Set up auto-refresh every 30 seconds
-    const interval = setInterval(checkHealth, 30000);
-    
-    // Listen for online/offline status
-    const handleOnline = () => {
-      setIsOnline(true);
-      checkHealth();
-    };
+    // Listen for online/offline status; the query itself refetches on reconnect
+    const handleOnline = () => setIsOnline(true);
     const handleOffline = () => setIsOnline(false);
     
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
     
     return () => {
-      clearInterval(interval);
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
   }, []);
 
-  const checkHealth = async () => {
-    if (!isOnline) return;
-    
-    try {
-      setLoading(true);
-      const response = await apiService.getHealth();
-      setHealth(response);
-      setLastUpdated(new Date());
-      onStatusChange?.(response);
-    } catch (error) {
-      console.error('Health check failed:', error);
-      toast({
-        title: "Connection issue",
-        description: "Unable to reach the API server",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+  useEffect(() => {
+    if (!error || isCancelledRequest(error)) return;
+    console.error('Health check failed:', error);
+    showError(error, { title: "Connection issue", onRetry: () => refetch() });
+  }, [error, errorUpdatedAt, showError, refetch]);
 
   const getStatusInfo = () => {
     if (!isOnline) {
@@ -157,7 +131,7 @@ const StatusIndicator = ({ onStatusChange }: StatusIndicatorProps) => {
           <Button
             variant="ghost"
             size="sm"
-            onClick={checkHealth}
+            onClick={() => refetch()}
             disabled={loading || !isOnline}
             className="h-8 w-8 p-0"
           >
@@ -269,7 +243,7 @@ const StatusIndicator = ({ onStatusChange }: StatusIndicatorProps) => {
         {/* Connection Info */}
         <div className="pt-2 border-t border-border/50">
           <p className="text-xs text-muted-foreground text-center">
-            API Status • Auto-refresh every 30s
+            {activeProfile.name} ({activeProfile.baseUrl}) • Auto-refresh every 30s
           </p>
         </div>
       </CardContent>
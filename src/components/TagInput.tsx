@@ -0,0 +1,64 @@
+import { useId, useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { normalizeTag } from '@/services/library';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+const TagInput = ({ value, onChange, suggestions = [], placeholder = 'Add tags...' }: TagInputProps) => {
+  const [draft, setDraft] = useState('');
+  const listId = useId();
+
+  const commit = () => {
+    const tag = normalizeTag(draft);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setDraft('');
+  };
+
+  return (
+    <div className="glass rounded-md px-2 py-1.5 flex flex-wrap items-center gap-1 min-h-9">
+      <Tag className="w-3 h-3 text-muted-foreground flex-shrink-0 ml-1" />
+      {value.map((tag) => (
+        <Badge key={tag} variant="secondary" className="text-xs pr-1">
+          {tag}
+          <button
+            type="button"
+            onClick={() => onChange(value.filter(t => t !== tag))}
+            className="ml-1 rounded-full hover:bg-foreground/10"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+      <input
+        value={draft}
+        list={listId}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            commit();
+          } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+            onChange(value.slice(0, -1));
+          }
+        }}
+        onBlur={commit}
+        placeholder={value.length === 0 ? placeholder : ''}
+        className="flex-1 min-w-24 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(tag => !value.includes(tag)).map((tag) => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Braces, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { fillTemplate, isDocumentPlaceholder, templatePlaceholders } from '@/lib/templates';
+import type { DocumentInfo } from '@/types/api';
+import type { SavedSearch } from '@/types/savedSearch';
+
+interface TemplateFillDialogProps {
+  template: SavedSearch;
+  // Suggested values for document-like placeholders
+  documents: DocumentInfo[];
+  onSubmit: (query: string) => void;
+  onClose: () => void;
+}
+
+const TemplateFillDialog = ({ template, documents, onSubmit, onClose }: TemplateFillDialogProps) => {
+  const placeholders = templatePlaceholders(template.query);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const complete = placeholders.every(placeholder => values[placeholder]?.trim());
+  const preview = fillTemplate(template.query, values);
+
+  const handleSubmit = () => {
+    if (!complete) return;
+    onSubmit(preview);
+    onClose();
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="glass-strong border-border/50 sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Braces className="w-5 h-5 text-primary" />
+            <span>{template.name}</span>
+          </DialogTitle>
+          <DialogDescription>Fill in the template to run it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {placeholders.map((placeholder, index) => {
+            const suggestDocuments = isDocumentPlaceholder(placeholder) && documents.length > 0;
+            return (
+              <div key={placeholder} className="space-y-1">
+                <Label htmlFor={`placeholder-${index}`} className="text-sm font-medium text-foreground capitalize">
+                  {placeholder}
+                </Label>
+                <Input
+                  id={`placeholder-${index}`}
+                  value={values[placeholder] ?? ''}
+                  onChange={(e) => setValues(current => ({ ...current, [placeholder]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSubmit();
+                  }}
+                  list={suggestDocuments ? `placeholder-${index}-documents` : undefined}
+                  className="glass"
+                  autoFocus={index === 0}
+                />
+                {suggestDocuments && (
+                  <datalist id={`placeholder-${index}-documents`}>
+                    {documents.map((doc) => (
+                      <option key={doc.name} value={doc.name} />
+                    ))}
+                  </datalist>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="glass rounded-lg p-3">
+            <p className="text-xs text-muted-foreground mb-1">Query</p>
+            <p className="text-sm text-foreground whitespace-pre-wrap">{preview}</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} className="btn-glass">Cancel</Button>
+          <Button onClick={handleSubmit} disabled={!complete}>
+            <Play className="w-4 h-4 mr-2" />
+            Run
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TemplateFillDialog;
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Globe, Loader2, Link } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useImportUrl } from '@/hooks/use-api';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { useToast } from '@/hooks/use-toast';
+import type { UploadResponse } from '@/types/api';
+
+interface UrlImportProps {
+  onImportComplete?: (response: UploadResponse) => void;
+}
+
+const UrlImport = ({ onImportComplete }: UrlImportProps) => {
+  const [url, setUrl] = useState('');
+  const [title, setTitle] = useState('');
+  const importUrl = useImportUrl();
+  const { toast } = useToast();
+  const showError = useErrorToast();
+
+  const isValidUrl = (value: string) => {
+    try {
+      const parsed = new URL(value);
+      return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  };
+
+  const handleImport = async () => {
+    if (!isValidUrl(url.trim())) {
+      toast({
+        title: "Invalid URL",
+        description: "Enter a full http(s) address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const response = await importUrl.mutateAsync({
+        url: url.trim(),
+        title: title.trim() || undefined,
+      });
+
+      if (response.success) {
+        toast({
+          title: "Page imported",
+          description: response.message,
+        });
+        setUrl('');
+        setTitle('');
+        onImportComplete?.(response);
+      } else {
+        toast({
+          title: "Import failed",
+          description: response.uploaded_files?.[0]?.error || response.message,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      showError(error, { title: "Import error", onRetry: handleImport });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="import-url" className="text-sm font-medium text-foreground">
+          Page URL
+        </Label>
+        <div className="relative">
+          <Link className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            id="import-url"
+            placeholder="https://example.com/article"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleImport();
+            }}
+            className="glass pl-9"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="import-title" className="text-sm font-medium text-foreground">
+          Title <span className="text-muted-foreground font-normal">(optional, defaults to the page title)</span>
+        </Label>
+        <Input
+          id="import-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="glass"
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        The server downloads the page and extracts its main text, so pages behind a login cannot be imported.
+      </p>
+
+      <Button
+        onClick={handleImport}
+        disabled={importUrl.isPending || !url.trim()}
+        className="btn-hero w-full"
+      >
+        {importUrl.isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Importing...
+          </>
+        ) : (
+          <>
+            <Globe className="w-4 h-4 mr-2" />
+            Import page
+          </>
+        )}
+      </Button>
+    </div>
+  );
+};
+
+export default UrlImport;
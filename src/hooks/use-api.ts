@@ -0,0 +1,141 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+
+import { useBackendProfiles } from "@/hooks/use-backend-profile";
+import { apiService } from "@/services/api";
+import { uploadQueue } from "@/services/uploadQueue";
+import type { QueryRequest, QueryStreamEvent, UrlImportRequest } from "@/types/api";
+
+// Cache keys are scoped to the backend profile, so switching profiles never
+// shows another backend's cached data. Invalidate by the first element to hit
+// every profile.
+export const queryKeys = {
+  health: (profileId: string) => ["health", profileId] as const,
+  languages: (profileId: string) => ["languages", profileId] as const,
+  documents: (profileId: string) => ["documents", profileId] as const,
+  clusters: (profileId: string) => ["clusters", profileId] as const,
+  queryVolume: (profileId: string, days: number) => ["queryVolume", profileId, days] as const,
+};
+
+const HEALTH_REFRESH_INTERVAL = 30_000;
+
+// Anything that adds, removes or re-reads documents changes the library, its
+// clusters and the health counts
+export function invalidateLibrary(queryClient: QueryClient) {
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: ["documents"] }),
+    queryClient.invalidateQueries({ queryKey: ["clusters"] }),
+    queryClient.invalidateQueries({ queryKey: ["health"] }),
+  ]);
+}
+
+export function useHealth({ enabled = true }: { enabled?: boolean } = {}) {
+  const { activeProfile } = useBackendProfiles();
+  return useQuery({
+    queryKey: queryKeys.health(activeProfile.id),
+    queryFn: ({ signal }) => apiService.getHealth(signal),
+    refetchInterval: HEALTH_REFRESH_INTERVAL,
+    enabled,
+  });
+}
+
+export function useSupportedLanguages() {
+  const { activeProfile } = useBackendProfiles();
+  return useQuery({
+    queryKey: queryKeys.languages(activeProfile.id),
+    queryFn: ({ signal }) => apiService.getSupportedLanguages(signal),
+    staleTime: Infinity,
+  });
+}
+
+export function useDocuments() {
+  const { activeProfile } = useBackendProfiles();
+  return useQuery({
+    queryKey: queryKeys.documents(activeProfile.id),
+    queryFn: ({ signal }) => apiService.getDocuments(signal),
+  });
+}
+
+export function useClusters() {
+  const { activeProfile } = useBackendProfiles();
+  return useQuery({
+    queryKey: queryKeys.clusters(activeProfile.id),
+    queryFn: ({ signal }) => apiService.getClusters(signal),
+  });
+}
+
+export function useQueryVolume(days: number) {
+  const { activeProfile } = useBackendProfiles();
+  return useQuery({
+    queryKey: queryKeys.queryVolume(activeProfile.id, days),
+    queryFn: ({ signal }) => apiService.getQueryVolume(days, signal),
+  });
+}
+
+export function useImportUrl() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (request: UrlImportRequest) => apiService.importUrl(request),
+    onSuccess: () => invalidateLibrary(queryClient),
+  });
+}
+
+export function useReloadDocuments() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => apiService.reloadDocuments(),
+    onSuccess: () => invalidateLibrary(queryClient),
+  });
+}
+
+export function useDeleteDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (name: string) => apiService.deleteDocument(name),
+    onSettled: () => invalidateLibrary(queryClient),
+  });
+}
+
+export function useDeleteDocuments() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (names: string[]) => apiService.deleteDocuments(names),
+    onSettled: () => invalidateLibrary(queryClient),
+  });
+}
+
+export function useReindexDocuments() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (names: string[]) => apiService.reindexDocuments(names),
+    onSettled: () => invalidateLibrary(queryClient),
+  });
+}
+
+// Queries are mutations: they are not cached, and each run is a new request
+export function useRunQuery() {
+  return useMutation({
+    mutationFn: ({ request, signal }: { request: QueryRequest; signal?: AbortSignal }) => (
+      apiService.query(request, signal)
+    ),
+  });
+}
+
+export function useStreamQuery() {
+  return useMutation({
+    mutationFn: ({ request, onEvent, signal }: {
+      request: QueryRequest;
+      onEvent: (event: QueryStreamEvent) => void;
+      signal?: AbortSignal;
+    }) => apiService.streamQuery(request, onEvent, signal),
+  });
+}
+
+// Uploads run through the upload queue rather than a mutation, so completed
+// batches invalidate the library from the queue's own event
+export function useUploadInvalidation() {
+  const queryClient = useQueryClient();
+  useEffect(() => uploadQueue.onUploadComplete(() => {
+    invalidateLibrary(queryClient);
+  }), [queryClient]);
+}
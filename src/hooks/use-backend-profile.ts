@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from "react";
+
+import { profileStore } from "@/services/profiles";
+
+export function useBackendProfiles() {
+  const profiles = useSyncExternalStore(profileStore.subscribe, profileStore.getProfiles);
+  const activeProfile = useSyncExternalStore(profileStore.subscribe, profileStore.getActiveProfile);
+
+  return {
+    profiles,
+    activeProfile,
+    setActiveProfile: profileStore.setActiveProfile,
+    saveProfile: profileStore.saveProfile,
+    removeProfile: profileStore.removeProfile,
+  };
+}
@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from "react";
+
+import { circuitBreaker } from "@/services/circuitBreaker";
+
+export function useCircuitBreaker() {
+  const state = useSyncExternalStore(circuitBreaker.subscribe, circuitBreaker.getState);
+
+  return {
+    ...state,
+    probeNow: circuitBreaker.probeNow,
+  };
+}
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+
+import { conversationStore } from "@/services/conversations";
+
+export function useConversations() {
+  const conversations = useSyncExternalStore(conversationStore.subscribe, conversationStore.getConversations);
+
+  return {
+    conversations,
+    start: conversationStore.start,
+    addTurn: conversationStore.addTurn,
+    setActiveLeaf: conversationStore.setActiveLeaf,
+    remove: conversationStore.remove,
+  };
+}
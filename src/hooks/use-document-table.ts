@@ -0,0 +1,92 @@
+import { useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+
+export type DocumentSortKey = "name" | "size" | "date";
+export type SortDirection = "asc" | "desc";
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+export interface DocumentTableState {
+  filter: string;
+  extension: string;
+  tag: string;
+  collection: string;
+  sort: DocumentSortKey;
+  direction: SortDirection;
+  page: number;
+  pageSize: number;
+}
+
+const DEFAULT_STATE: DocumentTableState = {
+  filter: "",
+  extension: "all",
+  tag: "all",
+  collection: "all",
+  sort: "date",
+  direction: "desc",
+  page: 1,
+  pageSize: 25,
+};
+
+// Prefixed so the table can share the URL with other views
+const PARAMS: Record<keyof DocumentTableState, string> = {
+  filter: "doc_q",
+  extension: "doc_type",
+  tag: "doc_tag",
+  collection: "doc_collection",
+  sort: "doc_sort",
+  direction: "doc_dir",
+  page: "doc_page",
+  pageSize: "doc_size",
+};
+
+const SORT_KEYS: DocumentSortKey[] = ["name", "size", "date"];
+
+function readState(params: URLSearchParams): DocumentTableState {
+  const sort = params.get(PARAMS.sort) as DocumentSortKey | null;
+  const direction = params.get(PARAMS.direction);
+  const page = Number(params.get(PARAMS.page));
+  const pageSize = Number(params.get(PARAMS.pageSize));
+
+  return {
+    filter: params.get(PARAMS.filter) ?? DEFAULT_STATE.filter,
+    extension: params.get(PARAMS.extension) ?? DEFAULT_STATE.extension,
+    tag: params.get(PARAMS.tag) ?? DEFAULT_STATE.tag,
+    collection: params.get(PARAMS.collection) ?? DEFAULT_STATE.collection,
+    sort: sort && SORT_KEYS.includes(sort) ? sort : DEFAULT_STATE.sort,
+    direction: direction === "asc" || direction === "desc" ? direction : DEFAULT_STATE.direction,
+    page: Number.isInteger(page) && page > 0 ? page : DEFAULT_STATE.page,
+    pageSize: PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : DEFAULT_STATE.pageSize,
+  };
+}
+
+// Table state lives in the query string so filtered views can be bookmarked and shared
+export function useDocumentTable() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const state = readState(searchParams);
+
+  const update = useCallback((changes: Partial<DocumentTableState>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      const merged = { ...readState(prev), ...changes };
+      // Any change other than paging starts again from the first page
+      if (!("page" in changes)) merged.page = 1;
+
+      (Object.keys(PARAMS) as (keyof DocumentTableState)[]).forEach((key) => {
+        const value = String(merged[key]);
+        if (value === String(DEFAULT_STATE[key])) next.delete(PARAMS[key]);
+        else next.set(PARAMS[key], value);
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const toggleSort = useCallback((sort: DocumentSortKey) => {
+    update({
+      sort,
+      direction: state.sort === sort && state.direction === "asc" ? "desc" : "asc",
+    });
+  }, [update, state.sort, state.direction]);
+
+  return { ...state, update, toggleSort };
+}
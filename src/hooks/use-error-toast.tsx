@@ -0,0 +1,40 @@
+import { useCallback } from "react";
+
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { describeApiError } from "@/lib/apiErrors";
+import { isCancelledRequest, NetworkError } from "@/services/api";
+import { circuitBreaker } from "@/services/circuitBreaker";
+
+interface ErrorToastOptions {
+  // Title for errors without a more specific one; see describeApiError
+  title?: string;
+  // Offered as a Retry button when the error is worth retrying
+  onRetry?: () => void;
+}
+
+// Shows an API error with its friendly title and recovery hint. Cancelled
+// requests were stopped on purpose, and connection failures while the circuit
+// is open are already reported by the ConnectionBanner, so neither is shown.
+export function useErrorToast() {
+  const { toast } = useToast();
+
+  return useCallback((error: unknown, { title, onRetry }: ErrorToastOptions = {}) => {
+    if (isCancelledRequest(error)) return;
+    if (error instanceof NetworkError && circuitBreaker.isOpen()) return;
+    const presentation = describeApiError(error, title);
+    toast({
+      title: presentation.title,
+      description: (
+        <>
+          <p>{presentation.description}</p>
+          {presentation.recovery && <p className="mt-1 opacity-80">{presentation.recovery}</p>}
+        </>
+      ),
+      variant: "destructive",
+      action: onRetry && presentation.retryable ? (
+        <ToastAction altText="Retry" onClick={onRetry}>Retry</ToastAction>
+      ) : undefined,
+    });
+  }, [toast]);
+}
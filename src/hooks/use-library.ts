@@ -0,0 +1,26 @@
+import { useMemo, useSyncExternalStore } from "react";
+
+import { libraryStore } from "@/services/library";
+
+export function useLibrary() {
+  const organization = useSyncExternalStore(libraryStore.subscribe, libraryStore.getOrganization);
+
+  // Every tag in use, for filters and suggestions
+  const allTags = useMemo(() => (
+    [...new Set(Object.values(organization.tags).flat())].sort()
+  ), [organization.tags]);
+
+  return {
+    tags: organization.tags,
+    collections: organization.collections,
+    allTags,
+    addTags: libraryStore.addTags,
+    removeTag: libraryStore.removeTag,
+    createCollection: libraryStore.createCollection,
+    renameCollection: libraryStore.renameCollection,
+    removeCollection: libraryStore.removeCollection,
+    addToCollection: libraryStore.addToCollection,
+    removeFromCollection: libraryStore.removeFromCollection,
+    forgetDocuments: libraryStore.forgetDocuments,
+  };
+}
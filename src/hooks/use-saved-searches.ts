@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+
+import { savedSearchStore } from "@/services/savedSearches";
+
+export function useSavedSearches() {
+  const savedSearches = useSyncExternalStore(savedSearchStore.subscribe, savedSearchStore.getSavedSearches);
+
+  return {
+    savedSearches,
+    save: savedSearchStore.save,
+    update: savedSearchStore.update,
+    remove: savedSearchStore.remove,
+  };
+}
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from "react";
+
+import { searchHistory } from "@/services/searchHistory";
+
+export function useSearchHistory() {
+  const entries = useSyncExternalStore(searchHistory.subscribe, searchHistory.getEntries);
+
+  return {
+    entries,
+    record: searchHistory.record,
+    findPreviousRun: searchHistory.findPreviousRun,
+    remove: searchHistory.remove,
+    clear: searchHistory.clear,
+  };
+}
@@ -0,0 +1,22 @@
+import { useSyncExternalStore } from "react";
+
+import { uploadQueue } from "@/services/uploadQueue";
+
+export function useUploadQueue() {
+  const { items, config, resumable } = useSyncExternalStore(uploadQueue.subscribe, uploadQueue.getState);
+
+  return {
+    items,
+    config,
+    resumable,
+    add: uploadQueue.add,
+    submit: uploadQueue.submit,
+    start: uploadQueue.start,
+    retry: uploadQueue.retry,
+    cancel: uploadQueue.cancel,
+    remove: uploadQueue.remove,
+    clearFinished: uploadQueue.clearFinished,
+    setConfig: uploadQueue.setConfig,
+    discardResumable: uploadQueue.discardResumable,
+  };
+}
@@ -0,0 +1,91 @@
+import { addDays, differenceInCalendarDays, format, startOfDay, startOfMonth, addMonths, subDays } from "date-fns";
+
+import { getExtension } from "@/lib/fileTypes";
+import type { DocumentInfo, QueryVolumeDay } from "@/types/api";
+
+export interface UploadPeriod {
+  label: string;
+  uploads: number;
+  total: number;
+}
+
+export interface LengthBucket {
+  label: string;
+  documents: number;
+}
+
+export interface TypeShare {
+  type: string;
+  documents: number;
+}
+
+// Libraries older than this are charted by month instead of by day
+const DAILY_SPAN_LIMIT = 90;
+
+const LENGTH_BUCKETS: Array<{ label: string; max: number }> = [
+  { label: "< 1K", max: 1_000 },
+  { label: "1K–10K", max: 10_000 },
+  { label: "10K–100K", max: 100_000 },
+  { label: "100K–1M", max: 1_000_000 },
+  { label: "> 1M", max: Infinity },
+];
+
+// Uploads per day (or month for long histories), with the running library size
+export function uploadsOverTime(documents: DocumentInfo[]): UploadPeriod[] {
+  const dates = documents
+    .map((doc) => new Date(doc.upload_date))
+    .filter((date) => !Number.isNaN(date.getTime()))
+    .sort((a, b) => a.getTime() - b.getTime());
+  if (dates.length === 0) return [];
+
+  const monthly = differenceInCalendarDays(dates[dates.length - 1], dates[0]) > DAILY_SPAN_LIMIT;
+  const periodStart = monthly ? startOfMonth : startOfDay;
+  const nextPeriod = (date: Date) => (monthly ? addMonths(date, 1) : addDays(date, 1));
+  const labelFormat = monthly ? "MMM yyyy" : "MMM d";
+
+  const counts = new Map<number, number>();
+  dates.forEach((date) => {
+    const key = periodStart(date).getTime();
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  // Walk every period so quiet days still show on the axis
+  const periods: UploadPeriod[] = [];
+  let total = 0;
+  const last = periodStart(dates[dates.length - 1]);
+  for (let cursor = periodStart(dates[0]); cursor <= last; cursor = nextPeriod(cursor)) {
+    const uploads = counts.get(cursor.getTime()) ?? 0;
+    total += uploads;
+    periods.push({ label: format(cursor, labelFormat), uploads, total });
+  }
+  return periods;
+}
+
+export function lengthDistribution(documents: DocumentInfo[]): LengthBucket[] {
+  const buckets = LENGTH_BUCKETS.map(({ label }) => ({ label, documents: 0 }));
+  documents.forEach((doc) => {
+    const index = LENGTH_BUCKETS.findIndex(({ max }) => doc.content_length < max);
+    buckets[index].documents++;
+  });
+  return buckets;
+}
+
+export function typeBreakdown(documents: DocumentInfo[]): TypeShare[] {
+  const counts = new Map<string, number>();
+  documents.forEach((doc) => {
+    const type = getExtension(doc.name).slice(1).toUpperCase() || "OTHER";
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([type, count]) => ({ type, documents: count }))
+    .sort((a, b) => b.documents - a.documents);
+}
+
+// Fills in the days the backend omitted so the chart has a continuous axis
+export function fillQueryVolume(days: QueryVolumeDay[], span: number, today = new Date()): QueryVolumeDay[] {
+  const byDate = new Map(days.map((day) => [day.date, day]));
+  return Array.from({ length: span }, (_, index) => {
+    const date = format(subDays(today, span - 1 - index), "yyyy-MM-dd");
+    return byDate.get(date) ?? { date, search: 0, explore: 0, think: 0, ppt: 0 };
+  });
+}
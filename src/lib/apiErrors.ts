@@ -0,0 +1,82 @@
+import { ApiError } from "@/services/api";
+
+// How an error is shown to the user
+export interface ErrorPresentation {
+  title: string;
+  description: string;
+  // What the user can do about it
+  recovery?: string;
+  // Sending the same request again may succeed
+  retryable: boolean;
+}
+
+const STATUS_RECOVERY: Record<number, string> = {
+  401: "Check the backend's access settings for this profile",
+  403: "Check the backend's access settings for this profile",
+  404: "It may have been deleted or moved. Refresh and try again",
+  413: "The server rejected the size of the request. Try smaller files or fewer at a time",
+  429: "The server is rate limiting requests. Wait a moment and try again",
+};
+
+// `fallbackTitle` is used for errors without a more specific title: HTTP
+// statuses other than 422 and 5xx, and errors that did not come from the API
+export function describeApiError(error: unknown, fallbackTitle = "Something went wrong"): ErrorPresentation {
+  if (!(error instanceof ApiError)) {
+    return {
+      title: fallbackTitle,
+      description: error instanceof Error ? error.message : "Unknown error occurred",
+      retryable: false,
+    };
+  }
+
+  switch (error.kind) {
+    case "network":
+      return {
+        title: "Can't reach the server",
+        description: error.message,
+        recovery: "Check your connection and that the backend is running, then try again",
+        retryable: true,
+      };
+    case "timeout":
+      return {
+        title: "The server took too long",
+        description: error.message,
+        recovery: "Try again; large queries and uploads can take a while",
+        retryable: true,
+      };
+    case "validation":
+      return {
+        title: "Request rejected",
+        description: error.message,
+        recovery: "Adjust the listed values and try again",
+        retryable: false,
+      };
+    case "server":
+      return {
+        title: "Server error",
+        description: error.message,
+        recovery: "Try again in a moment. If it keeps failing, check the backend logs",
+        retryable: true,
+      };
+    case "contract":
+      return {
+        title: "Backend contract mismatch",
+        description: error.message,
+        recovery: "The backend answered in an unexpected format. Check that its version matches this app",
+        retryable: false,
+      };
+    case "cancelled":
+      return {
+        title: "Cancelled",
+        description: error.message,
+        retryable: true,
+      };
+    default:
+      return {
+        title: fallbackTitle,
+        description: error.message,
+        recovery: error.status ? STATUS_RECOVERY[error.status] : undefined,
+        retryable: error.status === 429,
+      };
+  }
+}
@@ -0,0 +1,66 @@
+import type { ConversationContextTurn, QueryResponse } from "@/types/api";
+import type { Citation, Conversation, ConversationTurn } from "@/types/conversation";
+
+// Only the most recent turns are sent, to keep follow-up requests small
+const MAX_CONTEXT_TURNS = 6;
+const MAX_EXCERPT_LENGTH = 500;
+
+// The turns from the opening question down to `leafId`
+export function threadPath(conversation: Conversation, leafId = conversation.active_leaf_id): ConversationTurn[] {
+  const byId = new Map(conversation.turns.map((turn) => [turn.id, turn]));
+  const path: ConversationTurn[] = [];
+  for (let turn = byId.get(leafId); turn; turn = turn.parent_id ? byId.get(turn.parent_id) : undefined) {
+    path.unshift(turn);
+  }
+  return path;
+}
+
+// Alternative branches at the same point, oldest first
+export function siblingsOf(conversation: Conversation, turn: ConversationTurn): ConversationTurn[] {
+  return conversation.turns.filter((other) => other.parent_id === turn.parent_id);
+}
+
+// Follows the newest child at every step, so switching branches lands on the end of a thread
+export function latestLeaf(conversation: Conversation, turnId: string): string {
+  let leafId = turnId;
+  for (;;) {
+    const children = conversation.turns.filter((turn) => turn.parent_id === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
+
+// Think answers come back as refined insights on the results; fall back to the message
+export function answerText(response: QueryResponse): string {
+  const insights = response.results
+    .map((result) => result.metadata?.refined_insight)
+    .filter((insight): insight is string => typeof insight === "string" && insight.trim() !== "");
+  return [...new Set(insights)].join("\n\n") || response.message;
+}
+
+export function extractCitations(response: QueryResponse): Citation[] {
+  const seen = new Set<string>();
+  const citations: Citation[] = [];
+  response.results.forEach((result) => {
+    const source = result.source ?? result.metadata?.document_name;
+    const excerpt = (result.metadata?.best_sentence || result.content || "").trim();
+    if (!source) return;
+    const key = `${source}\u0000${excerpt}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    citations.push({ source, excerpt, similarity: result.similarity });
+  });
+  return citations;
+}
+
+const truncate = (text: string) => (
+  text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}…` : text
+);
+
+export function conversationContext(thread: ConversationTurn[]): ConversationContextTurn[] {
+  return thread.slice(-MAX_CONTEXT_TURNS).map((turn) => ({
+    question: turn.question,
+    answer: turn.answer,
+    citations: turn.citations.map(({ source, excerpt }) => ({ source, excerpt: truncate(excerpt) })),
+  }));
+}
@@ -0,0 +1,34 @@
+// Document types accepted for upload, keyed by MIME type as react-dropzone expects
+export const ACCEPTED_FILE_TYPES: Record<string, string[]> = {
+  "application/pdf": [".pdf"],
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
+  "text/plain": [".txt"],
+  "image/jpeg": [".jpg", ".jpeg"],
+  "image/png": [".png"],
+};
+
+export const ARCHIVE_FILE_TYPES: Record<string, string[]> = {
+  "application/zip": [".zip"],
+  "application/x-zip-compressed": [".zip"],
+};
+
+export function getExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot).toLowerCase();
+}
+
+export function isArchiveFile(name: string): boolean {
+  return getExtension(name) === ".zip";
+}
+
+export function isAcceptedFile(name: string): boolean {
+  const extension = getExtension(name);
+  return Object.values(ACCEPTED_FILE_TYPES).some((extensions) => extensions.includes(extension));
+}
+
+export function mimeTypeForName(name: string): string {
+  const extension = getExtension(name);
+  const match = Object.entries(ACCEPTED_FILE_TYPES).find(([, extensions]) => extensions.includes(extension));
+  return match ? match[0] : "application/octet-stream";
+}
@@ -0,0 +1,64 @@
+// Minimal promise wrapper around IndexedDB for client-side persistence.
+// Add new object stores to STORES and bump DB_VERSION.
+const DB_NAME = "summary-ai";
+const DB_VERSION = 4;
+
+const STORES: Record<string, IDBObjectStoreParameters> = {
+  resumableUploads: { keyPath: "fingerprint" },
+  uploadedHashes: { keyPath: "hash" },
+  searchHistory: { keyPath: "id" },
+  conversations: { keyPath: "id" },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, options]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, options);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function idbGet<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: string): Promise<T[]> {
+  return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export function idbPut<T>(store: string, value: T): Promise<IDBValidKey> {
+  return run<IDBValidKey>(store, "readwrite", (s) => s.put(value));
+}
+
+export function idbDelete(store: string, key: IDBValidKey): Promise<void> {
+  return run<void>(store, "readwrite", (s) => s.delete(key));
+}
+
+export function idbClear(store: string): Promise<void> {
+  return run<void>(store, "readwrite", (s) => s.clear());
+}
@@ -0,0 +1,38 @@
+import { format, isValid } from "date-fns";
+
+import { getExtension } from "@/lib/fileTypes";
+import type { DocumentInfo, QueryFilters } from "@/types/api";
+
+// Drops empty fields so an unfiltered query sends no `filters` at all
+export function compactFilters(filters: QueryFilters): QueryFilters | undefined {
+  const compact: QueryFilters = {};
+  if (filters.names?.length) compact.names = filters.names;
+  if (filters.extensions?.length) compact.extensions = filters.extensions;
+  if (filters.uploaded_from) compact.uploaded_from = filters.uploaded_from;
+  if (filters.uploaded_to) compact.uploaded_to = filters.uploaded_to;
+  return Object.keys(compact).length > 0 ? compact : undefined;
+}
+
+// Mirrors the backend's filtering so the UI can say which documents a query covers
+export function matchesFilters(doc: DocumentInfo, filters: QueryFilters): boolean {
+  if (filters.names?.length && !filters.names.includes(doc.name)) return false;
+  if (filters.extensions?.length && !filters.extensions.includes(getExtension(doc.name))) return false;
+  const uploadDate = new Date(doc.upload_date);
+  // Documents without a readable upload date are not excluded by the date range
+  if ((filters.uploaded_from || filters.uploaded_to) && isValid(uploadDate)) {
+    const uploaded = toDateParam(uploadDate);
+    if (filters.uploaded_from && uploaded < filters.uploaded_from) return false;
+    if (filters.uploaded_to && uploaded > filters.uploaded_to) return false;
+  }
+  return true;
+}
+
+export function toDateParam(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+// Parses a YYYY-MM-DD filter value as a local date
+export function fromDateParam(value: string): Date {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
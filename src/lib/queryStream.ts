@@ -0,0 +1,118 @@
+import type { QueryRequest, QueryResponse, QueryResult, QueryStage, QueryStreamEvent } from "@/types/api";
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+// What has arrived so far from a streaming query
+export interface QueryProgress {
+  // The stage in progress; earlier entries of `stages` are finished
+  stage: QueryStage | null;
+  stages: QueryStage[];
+  partial: QueryResponse;
+  // Result indices at or above this are out of range and ignored
+  maxResults: number;
+}
+
+// Upper bound on streamed results when the request sets no max_results
+const MAX_STREAMED_RESULTS = 200;
+
+export const QUERY_STAGE_LABELS: Record<QueryStage, string> = {
+  retrieving: "Retrieving",
+  summarizing: "Summarizing",
+  translating: "Translating",
+  building_slides: "Building slides",
+};
+
+export function isQueryStage(stage: string): stage is QueryStage {
+  return Object.prototype.hasOwnProperty.call(QUERY_STAGE_LABELS, stage);
+}
+
+// Splits complete events off the front of `buffer`; `rest` is an unfinished event
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n?/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+
+  const events = blocks.flatMap((block) => {
+    let event = "message";
+    const data: string[] = [];
+    block.split("\n").forEach((line) => {
+      if (line.startsWith(":")) return;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      else if (field === "data") data.push(value);
+    });
+    return data.length > 0 || event !== "message" ? [{ event, data: data.join("\n") }] : [];
+  });
+
+  return { events, rest };
+}
+
+export function initialProgress(request: QueryRequest): QueryProgress {
+  return {
+    stage: null,
+    stages: [],
+    maxResults: request.max_results ?? MAX_STREAMED_RESULTS,
+    partial: {
+      success: true,
+      message: "",
+      results: [],
+      action: request.action,
+      timestamp: new Date().toISOString(),
+      query: request.query,
+    },
+  };
+}
+
+function updateResult(progress: QueryProgress, index: number, update: (result: QueryResult) => QueryResult): QueryResult[] {
+  const results = progress.partial.results;
+  if (!Number.isInteger(index) || index < 0 || index >= progress.maxResults) return results;
+  const next = [...results];
+  // Tokens can arrive before their result, so fill any gap with empty results
+  for (let i = next.length; i <= index; i++) next[i] = { content: "", metadata: {} };
+  next[index] = update(next[index]);
+  return next;
+}
+
+export function applyStreamEvent(progress: QueryProgress, event: QueryStreamEvent): QueryProgress {
+  switch (event.type) {
+    case "stage":
+      return {
+        ...progress,
+        stage: event.stage,
+        stages: progress.stages.includes(event.stage) ? progress.stages : [...progress.stages, event.stage],
+      };
+    case "result":
+      return {
+        ...progress,
+        partial: {
+          ...progress.partial,
+          results: updateResult(progress, event.index, (current) => ({
+            ...event.result,
+            metadata: {
+              ...event.result.metadata,
+              // Keep insight tokens that arrived before the result itself
+              refined_insight: event.result.metadata?.refined_insight || current.metadata?.refined_insight,
+            },
+          })),
+        },
+      };
+    case "token":
+      return {
+        ...progress,
+        partial: {
+          ...progress.partial,
+          results: updateResult(progress, event.index, (current) => ({
+            ...current,
+            metadata: {
+              ...current.metadata,
+              refined_insight: `${current.metadata?.refined_insight ?? ""}${event.text}`,
+            },
+          })),
+        },
+      };
+  }
+}
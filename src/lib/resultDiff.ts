@@ -0,0 +1,43 @@
+import type { QueryResponse } from "@/types/api";
+import type { ResultDiff } from "@/types/history";
+
+type QueryResult = QueryResponse["results"][number];
+
+// Scores that moved less than this are treated as unchanged
+const SCORE_EPSILON = 0.005;
+
+// Results carry no id, so identify them by where they came from and how they start
+export function resultKey(result: QueryResult): string {
+  return `${result.source ?? ""}::${(result.content ?? "").slice(0, 200)}`;
+}
+
+export function resultTitle(result: QueryResult): string {
+  if (result.source) return result.source;
+  const content = (result.content ?? "").trim();
+  return content.length > 80 ? `${content.slice(0, 80)}…` : content || "Untitled result";
+}
+
+export function diffResults(before: QueryResponse, after: QueryResponse): ResultDiff {
+  const previous = new Map(before.results.map((result) => [resultKey(result), result]));
+  const current = new Map(after.results.map((result) => [resultKey(result), result]));
+
+  const diff: ResultDiff = { appeared: [], disappeared: [], changed: [], unchanged: 0 };
+  current.forEach((result, key) => {
+    const old = previous.get(key);
+    if (!old) {
+      diff.appeared.push(result);
+      return;
+    }
+    const beforeScore = old.similarity ?? 0;
+    const afterScore = result.similarity ?? 0;
+    if (Math.abs(afterScore - beforeScore) >= SCORE_EPSILON) {
+      diff.changed.push({ key, title: resultTitle(result), before: beforeScore, after: afterScore });
+    } else {
+      diff.unchanged++;
+    }
+  });
+  previous.forEach((result, key) => {
+    if (!current.has(key)) diff.disappeared.push(result);
+  });
+  return diff;
+}
@@ -0,0 +1,19 @@
+// Placeholders are written as {name}; names may contain letters, digits, spaces, _ and -
+const PLACEHOLDER_PATTERN = /\{\s*([\w -]+?)\s*\}/g;
+
+// Unique placeholder names in order of first appearance
+export function templatePlaceholders(template: string): string[] {
+  const names = [...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+  return [...new Set(names)];
+}
+
+export function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => (
+    values[name]?.trim() ? values[name].trim() : placeholder
+  ));
+}
+
+// Placeholders like {document} or {file} are filled with a document name
+export function isDocumentPlaceholder(name: string): boolean {
+  return /doc|file|report/i.test(name);
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { 
   Search, 
   Upload, 
@@ -10,7 +11,11 @@ import {
   Globe,
   Zap,
   Brain,
-  FileText
+  FileText,
+  ClipboardPaste,
+  Link,
+  Network,
+  BarChart3
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -21,20 +26,65 @@ import { Separator } from '@/components/ui/separator';
 
 import BackgroundVideo from '@/components/BackgroundVideo';
 import FileUpload from '@/components/FileUpload';
+import PasteTextImport from '@/components/PasteTextImport';
+import UrlImport from '@/components/UrlImport';
 import SearchInterface from '@/components/SearchInterface';
 import DocumentManager from '@/components/DocumentManager';
+import DocumentDetailSheet from '@/components/DocumentDetailSheet';
+import ClusterExplorer from '@/components/ClusterExplorer';
+import LibraryAnalytics from '@/components/LibraryAnalytics';
 import ResultsDisplay from '@/components/ResultsDisplay';
+import ConversationView from '@/components/ConversationView';
 import StatusIndicator from '@/components/StatusIndicator';
+import ConnectionBanner from '@/components/ConnectionBanner';
+import BackendSettings from '@/components/BackendSettings';
+import { useDocuments, useHealth, useUploadInvalidation } from '@/hooks/use-api';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_QUERY_THRESHOLD } from '@/services/api';
+import { conversationStore } from '@/services/conversations';
+import { uploadQueue } from '@/services/uploadQueue';
 
-import type { QueryResponse, UploadResponse, HealthResponse } from '@/types/api';
+import type { QueryProgress } from '@/lib/queryStream';
+import type { QueryResponse, QueryFilters, QueryOptions, QueryRequest } from '@/types/api';
 
 const Index = () => {
-  const [activeTab, setActiveTab] = useState('search');
+  const { name: openDocument } = useParams();
+  // A /documents/:name deep link lands on the library behind the detail sheet
+  const [activeTab, setActiveTab] = useState(() => (openDocument ? 'documents' : 'search'));
   const [searchResults, setSearchResults] = useState<QueryResponse | null>(null);
+  // The request behind searchResults, so follow-ups keep its settings
+  const [searchRequest, setSearchRequest] = useState<QueryRequest | null>(null);
+  const [previousResults, setPreviousResults] = useState<QueryResponse | null>(null);
   const [searchLoading, setSearchLoading] = useState(false);
-  const [systemHealth, setSystemHealth] = useState<HealthResponse | null>(null);
-  const [documentsCount, setDocumentsCount] = useState(0);
+  const [queryProgress, setQueryProgress] = useState<QueryProgress | null>(null);
+  const cancelQueryRef = useRef<(() => void) | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<QueryFilters>({});
+  const [queryOptions, setQueryOptions] = useState<QueryOptions>({ threshold: DEFAULT_QUERY_THRESHOLD });
+  // When set, the Results tab shows this Think conversation instead of the one-shot results
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const { data: systemHealth } = useHealth();
+  const { data: documents } = useDocuments();
+  const documentsCount = documents?.total_documents ?? systemHealth?.document_count ?? 0;
+  useUploadInvalidation();
+
+  const closeDocument = () => {
+    navigate({ pathname: '/', search: location.search });
+  };
+
+  const handleSearchWithin = (name: string) => {
+    setSearchFilters({ names: [name] });
+    setActiveTab('search');
+    closeDocument();
+  };
+
+  const handleSearchCluster = (names: string[]) => {
+    setSearchFilters({ names });
+    setActiveTab('search');
+  };
 
   useEffect(() => {
     // Set page title and meta description
@@ -45,38 +95,80 @@ const Index = () => {
     }
   }, []);
 
-  const handleUploadComplete = (response: UploadResponse) => {
-    if (response.success) {
-      setActiveTab('documents');
-      // Refresh document count
-      setTimeout(() => {
-        setDocumentsCount(prev => prev + response.uploaded_files.filter(f => f.status === 'success').length);
-      }, 1000);
-    }
+  // The import mutation has already invalidated the library
+  const handleImportComplete = () => {
+    setActiveTab('documents');
   };
 
-  const handleSearchResults = (results: QueryResponse) => {
+  // The upload queue outlives the Upload tab, so its events are handled here
+  useEffect(() => {
+    const unsubscribeDrain = uploadQueue.onDrain(({ succeeded, failed, cancelled }) => {
+      if (failed === 0 && succeeded > 0) {
+        toast({
+          title: "Upload successful",
+          description: `${succeeded} file${succeeded > 1 ? 's' : ''} uploaded${cancelled ? `, ${cancelled} cancelled` : ''}`,
+        });
+        setActiveTab(prev => (prev === 'upload' ? 'documents' : prev));
+      } else if (failed > 0) {
+        toast({
+          title: succeeded > 0 ? "Some files failed" : "Upload failed",
+          description: `${succeeded} uploaded, ${failed} failed${cancelled ? `, ${cancelled} cancelled` : ''}. Failed files can be retried from the Upload tab.`,
+          variant: "destructive",
+        });
+      }
+    });
+
+    return unsubscribeDrain;
+  }, [toast]);
+
+  const handleSearchResults = (results: QueryResponse, request: QueryRequest, previous?: QueryResponse) => {
     setSearchResults(results);
+    setSearchRequest(request);
+    setPreviousResults(previous ?? null);
+    setConversationId(null);
+    setActiveTab('results');
+  };
+
+  // Reuses the conversation already started from these results, if any;
+  // a new one keeps the settings and scope of the search that produced them
+  const handleFollowUp = () => {
+    if (!searchResults || !searchRequest) return;
+    const existing = conversationStore.getConversations().find(c => c.turns[0]?.response === searchResults);
+    const conversation = existing ?? conversationStore.start(searchRequest, searchResults);
+    setConversationId(conversation.id);
+  };
+
+  const handleOpenConversation = (id: string) => {
+    setConversationId(id);
     setActiveTab('results');
   };
 
-  const handleSearchStart = () => {
+  // Streaming queries show their progress on the Results tab straight away
+  const handleSearchStart = (cancel: () => void) => {
+    cancelQueryRef.current = cancel;
+    setQueryProgress(null);
     setSearchLoading(true);
+    setConversationId(null);
+    setActiveTab('results');
   };
 
   const handleSearchComplete = () => {
+    cancelQueryRef.current = null;
+    setQueryProgress(null);
     setSearchLoading(false);
   };
 
-  const handleStatusChange = (status: HealthResponse) => {
-    setSystemHealth(status);
-    setDocumentsCount(status.document_count);
+  const handleCancelQuery = () => {
+    cancelQueryRef.current?.();
+    setActiveTab('search');
   };
 
   const navigationItems = [
     { id: 'search', label: 'Search', icon: Search, description: 'AI-powered document search' },
     { id: 'upload', label: 'Upload', icon: Upload, description: 'Add new documents' },
     { id: 'documents', label: 'Documents', icon: Database, description: 'Manage your library' },
+    { id: 'clusters', label: 'Clusters', icon: Network, description: 'Explore topic clusters' },
+    { id: 'analytics', label: 'Analytics', icon: BarChart3, description: 'Library growth and usage' },
     { id: 'results', label: 'Results', icon: FileText, description: 'View search results' },
     { id: 'status', label: 'Status', icon: Activity, description: 'System health' },
   ];
@@ -196,6 +288,7 @@ const Index = () => {
                   {systemHealth.status === 'healthy' ? 'Online' : 'Issues'}
                 </Badge>
               )}
+              <BackendSettings />
               <Button variant="ghost" size="sm" className="hidden sm:flex">
                 <Github className="w-4 h-4" />
               </Button>
@@ -204,6 +297,8 @@ const Index = () => {
         </div>
       </header>
 
+      <ConnectionBanner />
+
       <div className="container mx-auto px-4 py-8">
         <div className="grid lg:grid-cols-4 gap-8">
           {/* Sidebar Navigation - Desktop */}
@@ -240,7 +335,7 @@ const Index = () => {
           <div className="lg:col-span-3">
             <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
               {/* Tab Navigation - Mobile */}
-              <TabsList className="grid w-full grid-cols-5 lg:hidden glass">
+              <TabsList className="grid w-full grid-cols-7 lg:hidden glass">
                 {navigationItems.map((item) => {
                   const Icon = item.icon;
                   return (
@@ -292,31 +387,90 @@ const Index = () => {
               <TabsContent value="search" className="space-y-6">
                 <SearchInterface 
                   onSearchResults={handleSearchResults}
+                  onSearchStart={handleSearchStart}
+                  onSearchProgress={setQueryProgress}
+                  onSearchComplete={handleSearchComplete}
+                  filters={searchFilters}
+                  onFiltersChange={setSearchFilters}
+                  options={queryOptions}
+                  onOptionsChange={setQueryOptions}
+                  lastResults={searchResults}
+                  onOpenConversation={handleOpenConversation}
                 />
               </TabsContent>
 
               <TabsContent value="upload" className="space-y-6">
-                <FileUpload onUploadComplete={handleUploadComplete} />
+                <Tabs defaultValue="files" className="space-y-6">
+                  <TabsList className="grid w-full grid-cols-3 glass">
+                    <TabsTrigger value="files" className="flex items-center space-x-2">
+                      <Upload className="w-4 h-4" />
+                      <span>Files</span>
+                    </TabsTrigger>
+                    <TabsTrigger value="paste" className="flex items-center space-x-2">
+                      <ClipboardPaste className="w-4 h-4" />
+                      <span>Paste text</span>
+                    </TabsTrigger>
+                    <TabsTrigger value="url" className="flex items-center space-x-2">
+                      <Link className="w-4 h-4" />
+                      <span>From URL</span>
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="files">
+                    <FileUpload />
+                  </TabsContent>
+                  <TabsContent value="paste">
+                    <PasteTextImport />
+                  </TabsContent>
+                  <TabsContent value="url">
+                    <UrlImport onImportComplete={handleImportComplete} />
+                  </TabsContent>
+                </Tabs>
               </TabsContent>
 
               <TabsContent value="documents" className="space-y-6">
-                <DocumentManager onDocumentsChange={() => {}} />
+                <DocumentManager />
+              </TabsContent>
+
+              <TabsContent value="clusters" className="space-y-6">
+                <ClusterExplorer onSearchCluster={handleSearchCluster} />
+              </TabsContent>
+
+              <TabsContent value="analytics" className="space-y-6">
+                <LibraryAnalytics />
               </TabsContent>
 
               <TabsContent value="results" className="space-y-6">
-                <ResultsDisplay 
-                  results={searchResults} 
-                  loading={searchLoading}
-                />
+                {conversationId ? (
+                  <ConversationView
+                    conversationId={conversationId}
+                    onSelectConversation={setConversationId}
+                    onExit={() => setConversationId(null)}
+                  />
+                ) : (
+                  <ResultsDisplay 
+                    results={searchResults} 
+                    previous={previousResults}
+                    loading={searchLoading}
+                    progress={queryProgress}
+                    onCancel={handleCancelQuery}
+                    onFollowUp={handleFollowUp}
+                  />
+                )}
               </TabsContent>
 
               <TabsContent value="status" className="space-y-6">
-                <StatusIndicator onStatusChange={handleStatusChange} />
+                <StatusIndicator />
               </TabsContent>
             </Tabs>
           </div>
         </div>
       </div>
+
+      <DocumentDetailSheet
+        name={openDocument ?? null}
+        onClose={closeDocument}
+        onSearchWithin={handleSearchWithin}
+      />
     </div>
   );
 };
@@ -1,162 +1,774 @@
 import axios from 'axios';
-import type {
-  QueryRequest,
-  QueryResponse,
-  UploadResponse,
-  DocumentsResponse,
-  HealthResponse,
-  SupportedLanguagesResponse,
+import {
+  acknowledgementSchema,
+  bulkDocumentSchema,
+  chunkedUploadSessionSchema,
+  chunkUploadResponseSchema,
+  clustersSchema,
+  deleteDocumentSchema,
+  documentDetailSchema,
+  documentsResponseSchema,
+  healthSchema,
+  queryVolumeSchema,
+  rawQueryResponseSchema,
+  statusSchema,
+  streamErrorSchema,
+  streamResultSchema,
+  streamStageSchema,
+  streamTokenSchema,
+  supportedLanguagesSchema,
+  uploadResponseSchema,
+  type Acknowledgement,
+  type BulkDocumentRequest,
+  type BulkDocumentResponse,
+  type ChunkedUploadInitRequest,
+  type ChunkedUploadSession,
+  type ChunkUploadResponse,
+  type ClustersResponse,
+  type DeleteDocumentResponse,
+  type DocumentDetail,
+  type DocumentsResponse,
+  type HealthResponse,
+  type QueryRequest,
+  type QueryResponse,
+  type QueryResult,
+  type QueryStreamEvent,
+  type QueryVolumeResponse,
+  type RawQueryResult,
+  type Schema,
+  type StatusResponse,
+  type SupportedLanguagesResponse,
+  type UploadRequestOptions,
+  type UploadResponse,
+  type UrlImportRequest,
 } from '../types/api';
-// Configure the base URL - adjust this to your FastAPI server
-const BASE_URL = 'http://localhost:8000';
+import { isQueryStage, parseServerSentEvents } from '../lib/queryStream';
+import { circuitBreaker } from './circuitBreaker';
+import { profileStore } from './profiles';
 
+// The base URL comes from the active backend profile (VITE_API_URL by default)
 const api = axios.create({
-  baseURL: BASE_URL,
+  baseURL: profileStore.getActiveProfile().baseUrl,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Normalize backend response shape to UI-expected QueryResponse
-function normalizeQueryResponse(raw: any): QueryResponse {
-  const items = Array.isArray(raw?.results) ? raw.results.map((r: any) => ({
-    content: r?.content ?? r?.summary ?? r?.best_sentence ?? '',
+// Point the client at the newly selected profile whenever it changes
+profileStore.subscribe(() => {
+  api.defaults.baseURL = profileStore.getActiveProfile().baseUrl;
+});
+
+export type ApiErrorKind = 'network' | 'timeout' | 'validation' | 'server' | 'http' | 'contract' | 'cancelled';
+
+// One invalid field from a FastAPI 422 response, e.g. { field: "threshold", message: "Input should be less than 1" }
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Every error apiService throws is an ApiError; `kind` says which subclass it is
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  // HTTP status, for errors the server answered
+  status?: number;
+  // The backend's own explanation (FastAPI `detail`), when it sent one
+  detail?: string;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number, detail?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+// No response at all: the server is down, unreachable or blocked by CORS
+export class NetworkError extends ApiError {
+  constructor(message = 'The API server could not be reached') {
+    super('network', message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ApiError {
+  constructor() {
+    super('timeout', 'The API server did not answer in time');
+    this.name = 'TimeoutError';
+  }
+}
+
+// 422: the backend rejected the request body
+export class ValidationError extends ApiError {
+  fields: FieldError[];
+
+  constructor(fields: FieldError[], detail?: string) {
+    super('validation', detail ?? 'The request was rejected as invalid', 422, detail);
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+// 5xx: the backend failed while handling a valid request
+export class ServerError extends ApiError {
+  constructor(status?: number, detail?: string) {
+    const fallback = status ? `The server failed with status ${status}` : 'The server failed to complete the request';
+    super('server', detail ?? fallback, status, detail);
+    this.name = 'ServerError';
+  }
+}
+
+// Thrown without sending the request while the circuit breaker is open
+export class CircuitOpenError extends NetworkError {
+  constructor() {
+    super('The API server is unavailable, so requests are paused until it recovers');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CancelledError extends ApiError {
+  constructor() {
+    super('cancelled', 'The request was cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+// Shown in full in the message; the rest are summarized as a count
+const LISTED_FIELDS = 5;
+
+// A response that does not match the documented shape. `fields` lists every
+// offending path with what was wrong with it, e.g. "documents.3.upload_date: Required".
+export class BackendContractError extends ApiError {
+  endpoint: string;
+  fields: string[];
+
+  constructor(endpoint: string, fields: string[]) {
+    const listed = fields.slice(0, LISTED_FIELDS).join('; ');
+    const more = fields.length > LISTED_FIELDS ? ` and ${fields.length - LISTED_FIELDS} more` : '';
+    super('contract', `Backend contract mismatch in ${endpoint}: ${listed}${more}`);
+    this.name = 'BackendContractError';
+    this.endpoint = endpoint;
+    this.fields = fields;
+  }
+}
+
+// Parses `data` or throws a BackendContractError naming every field that failed
+function parseResponse<T>(schema: Schema<T>, data: unknown, endpoint: string): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const fields = result.error.issues.map(issue => `${issue.path.join('.') || '(response)'}: ${issue.message}`);
+  throw new BackendContractError(endpoint, fields);
+}
+
+// FastAPI answers errors with { detail }: a string for HTTPException, or a
+// list of { loc, msg } for request validation failures
+function readErrorDetail(body: unknown): { detail?: string; fields: FieldError[] } {
+  const detail = body && typeof body === 'object' ? (body as { detail?: unknown }).detail : undefined;
+  if (typeof detail === 'string') return { detail, fields: [] };
+  if (!Array.isArray(detail)) return { fields: [] };
+
+  const fields = detail.map(item => ({
+    // The first segment says where the field was (body, query, path), which users do not need
+    field: (Array.isArray(item?.loc) ? item.loc : [])
+      .filter((part: unknown, index: number) => index > 0 || !['body', 'query', 'path'].includes(String(part)))
+      .join('.') || 'request',
+    message: typeof item?.msg === 'string' ? item.msg : 'Invalid value',
+  }));
+  return { detail: fields.map(({ field, message }) => `${field}: ${message}`).join('; '), fields };
+}
+
+function errorForStatus(status: number, body: unknown): ApiError {
+  const { detail, fields } = readErrorDetail(body);
+  if (status === 422) return new ValidationError(fields, detail);
+  if (status >= 500) return new ServerError(status, detail);
+  return new ApiError('http', detail ?? `Request failed with status ${status}`, status, detail);
+}
+
+// Turns whatever axios or fetch threw into the matching ApiError
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError')) {
+    return new CancelledError();
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') return new TimeoutError();
+    if (!error.response) return new NetworkError();
+    return errorForStatus(error.response.status, error.response.data);
+  }
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError) return new NetworkError();
+  return new ApiError('http', error instanceof Error ? error.message : 'Request failed');
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Marks a POST as safe to send twice (read-only queries); GET, HEAD,
+    // OPTIONS, PUT and DELETE always are
+    idempotent?: boolean;
+    // Retries after the first attempt, MAX_RETRIES unless set
+    retries?: number;
+    // Sent even while the circuit is open and not counted by it, e.g. probes of another backend
+    bypassCircuit?: boolean;
+    // Retries made so far, set by the retry interceptor
+    retryAttempt?: number;
+  }
+}
+
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 8000;
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+// What a stopped or restarting server looks like; these count towards opening the circuit
+function isConnectionFailure(error: ApiError): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  return error instanceof NetworkError || [502, 503, 504].includes(error.status ?? 0);
+}
+
+// A 500 is usually a bug that fails the same way again, so it is not retried
+function isRetryable(error: ApiError): boolean {
+  return isConnectionFailure(error) || error instanceof TimeoutError || error.status === 429;
+}
+
+function retryDelay(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Fail fast while the backend is known to be down
+api.interceptors.request.use(config => {
+  if (!config.bypassCircuit && circuitBreaker.isOpen()) throw new CircuitOpenError();
+  return config;
+});
+
+// Converts failures to ApiErrors, reports reachability to the circuit breaker
+// and retries transient failures of idempotent requests with backoff
+api.interceptors.response.use(
+  response => {
+    if (!response.config.bypassCircuit) circuitBreaker.recordSuccess();
+    return response;
+  },
+  async (rawError) => {
+    const error = toApiError(rawError);
+    // Errors thrown before sending (an open circuit) have no config to retry
+    const config = axios.isAxiosError(rawError) ? rawError.config : undefined;
+    if (!config) throw error;
+
+    if (!config.bypassCircuit) {
+      if (isConnectionFailure(error)) circuitBreaker.recordFailure();
+      else if (error.status) circuitBreaker.recordSuccess();
+    }
+
+    const attempt = config.retryAttempt ?? 0;
+    const idempotent = config.idempotent ?? IDEMPOTENT_METHODS.includes(config.method ?? 'get');
+    if (!idempotent || !isRetryable(error) || attempt >= (config.retries ?? MAX_RETRIES)) throw error;
+
+    await wait(retryDelay(attempt + 1), config.signal as AbortSignal | undefined);
+    // Goes through the request interceptor again, so an open circuit stops the retries
+    return api.request({ ...config, retryAttempt: attempt + 1 });
+  },
+);
+
+// Minimum similarity a result needs unless the caller picks another threshold
+export const DEFAULT_QUERY_THRESHOLD = 0.35;
+
+function normalizeQueryResult(r: RawQueryResult): QueryResult {
+  return {
+    content: r.content ?? r.summary ?? r.best_sentence ?? '',
     metadata: {
-      document_name: r?.document_name ?? r?.source ?? r?.metadata?.document_name,
-      best_sentence: r?.best_sentence,
-      score: r?.score,
-      summary: r?.summary,
-      web_content: r?.web_content,
-      refined_insight: r?.refined_insight,
+      document_name: r.document_name ?? r.source ?? r.metadata?.document_name,
+      best_sentence: r.best_sentence,
+      score: r.score,
+      summary: r.summary,
+      web_content: r.web_content,
+      refined_insight: r.refined_insight,
       // PPT specific fields
-      ppt_path: r?.ppt_path,
-      file_name: r?.file_name,
-      action_type: r?.action_type,
-      ...(r?.metadata && typeof r.metadata === 'object' ? r.metadata : {}),
+      ppt_path: r.ppt_path,
+      file_name: r.file_name,
+      action_type: r.action_type,
+      ...r.metadata,
     },
-    similarity: typeof r?.similarity === 'number' ? r.similarity : (typeof r?.score === 'number' ? r.score : undefined),
-    source: r?.source ?? r?.document_name,
-  })) : [];
+    similarity: typeof r.similarity === 'number' ? r.similarity : (typeof r.score === 'number' ? r.score : undefined),
+    source: r.source ?? r.document_name,
+  };
+}
 
+// Validate and normalize backend response shape to UI-expected QueryResponse
+function normalizeQueryResponse(data: unknown, endpoint: string): QueryResponse {
+  const raw = parseResponse(rawQueryResponseSchema, data, endpoint);
   return {
-    success: Boolean(raw?.success),
-    message: raw?.message ?? '',
-    results: items,
-    action: raw?.action ?? raw?.action_type ?? 'search',
-    timestamp: raw?.timestamp ?? new Date().toISOString(),
-    query: raw?.query ?? '',
-    translation: raw?.translation,
-  } as QueryResponse;
+    success: raw.success,
+    message: raw.message ?? '',
+    results: raw.results.map(normalizeQueryResult),
+    action: raw.action ?? raw.action_type ?? 'search',
+    timestamp: raw.timestamp ?? new Date().toISOString(),
+    query: raw.query ?? '',
+    translation: raw.translation,
+  };
 }
 
-// API service functions
+// True for requests stopped through an AbortSignal, whether sent by axios or fetch
+export function isCancelledRequest(error: unknown): boolean {
+  return error instanceof CancelledError || axios.isCancel(error) || (error instanceof DOMException && error.name === 'AbortError');
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiting: number;
+}
+
+const inFlight = new Map<string, SharedRequest>();
+
+const dedupeKey = (method: string, path: string, body?: unknown) => (
+  `${api.defaults.baseURL}|${method}|${path}|${body === undefined ? '' : JSON.stringify(body)}`
+);
+
+// Identical requests made while one is running share its response. A caller's
+// signal only detaches that caller; the request itself is aborted once no
+// caller is waiting for it.
+function shared<T>(key: string, run: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (signal?.aborted) return Promise.reject(new CancelledError());
+
+  let request = inFlight.get(key);
+  if (!request) {
+    const controller = new AbortController();
+    const created: SharedRequest = { promise: run(controller.signal), controller, waiting: 0 };
+    const release = () => {
+      if (inFlight.get(key) === created) inFlight.delete(key);
+    };
+    created.promise.then(release, release);
+    inFlight.set(key, created);
+    request = created;
+  }
+
+  const current = request;
+  current.waiting++;
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      current.waiting--;
+      signal?.removeEventListener('abort', detach);
+      finish();
+    };
+    const detach = () => settle(() => {
+      if (current.waiting === 0) {
+        current.controller.abort();
+        if (inFlight.get(key) === current) inFlight.delete(key);
+      }
+      reject(new CancelledError());
+    });
+
+    signal?.addEventListener('abort', detach, { once: true });
+    current.promise.then(
+      value => settle(() => resolve(value as T)),
+      error => settle(() => reject(error)),
+    );
+  });
+}
+
+const latestByChannel = new Map<string, AbortController>();
+
+// Aborts the previous request on `channel`, so only the newest one can resolve
+function supersede(channel: string, signal?: AbortSignal): AbortController {
+  latestByChannel.get(channel)?.abort();
+  const controller = new AbortController();
+  latestByChannel.set(channel, controller);
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', () => controller.abort(), { once: true });
+  return controller;
+}
+
+// Only ppt writes anything (a new presentation), so it is never resent
+function isReadOnlyQuery(request: QueryRequest): boolean {
+  return request.action !== 'ppt';
+}
+
+// Reads one POST /query/stream response; see QueryStreamEvent in types/api.ts
+async function readQueryStream(
+  request: QueryRequest,
+  onEvent: (event: QueryStreamEvent) => void,
+  signal: AbortSignal,
+): Promise<QueryResponse> {
+  const baseUrl = (api.defaults.baseURL ?? '').replace(/\/$/, '');
+  const response = await fetch(`${baseUrl}/query/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  // Backends without streaming support answer the same request in one go. So
+  // do successful responses without a readable body, except ppt, which the
+  // server may already have run.
+  const streamUnsupported = response.status === 404 || response.status === 405;
+  const bodyMissing = response.ok && !response.body;
+  if (bodyMissing && !isReadOnlyQuery(request)) {
+    throw new BackendContractError('POST /query/stream', ['(response): No response body']);
+  }
+  if (streamUnsupported || bodyMissing) {
+    const fallback = await api.post('/query', request, { signal, idempotent: isReadOnlyQuery(request) });
+    return normalizeQueryResponse(fallback.data, 'POST /query');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => undefined);
+    throw errorForStatus(response.status, body);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      const parsed = parseServerSentEvents(buffer + value);
+      buffer = parsed.rest;
+
+      for (const message of parsed.events) {
+        const endpoint = `POST /query/stream (${message.event} event)`;
+        let data: unknown = {};
+        try {
+          if (message.data) data = JSON.parse(message.data);
+        } catch {
+          throw new BackendContractError(endpoint, ['(response): Not valid JSON']);
+        }
+        switch (message.event) {
+          case 'stage': {
+            const { stage } = parseResponse(streamStageSchema, data, endpoint);
+            if (isQueryStage(stage)) onEvent({ type: 'stage', stage });
+            break;
+          }
+          case 'result': {
+            const { index, result } = parseResponse(streamResultSchema, data, endpoint);
+            onEvent({ type: 'result', index, result: normalizeQueryResult(result) });
+            break;
+          }
+          case 'token': {
+            const { index, text } = parseResponse(streamTokenSchema, data, endpoint);
+            onEvent({ type: 'token', index, text: text ?? '' });
+            break;
+          }
+          case 'done':
+            return normalizeQueryResponse(data, endpoint);
+          case 'error':
+            throw new ServerError(undefined, parseResponse(streamErrorSchema, data, endpoint).message);
+        }
+      }
+    }
+  } finally {
+    void reader.cancel().catch(() => undefined);
+  }
+  throw new NetworkError('The query stream ended before the results were complete');
+}
+
+// API service functions. Every method takes an optional AbortSignal; reads
+// are deduplicated while in flight.
 export const apiService = {
   // Health and status
-  async getHealth(): Promise<HealthResponse> {
-    const response = await api.get<HealthResponse>('/health');
-    return response.data;
+  async getHealth(signal?: AbortSignal): Promise<HealthResponse> {
+    return shared(dedupeKey('GET', '/health'), async (requestSignal) => {
+      const response = await api.get('/health', { signal: requestSignal });
+      return parseResponse(healthSchema, response.data, 'GET /health');
+    }, signal);
+  },
+
+  // Probe an arbitrary backend, used to test a profile before saving it
+  async checkHealth(baseUrl: string, signal?: AbortSignal): Promise<HealthResponse> {
+    const response = await api.get('/health', { baseURL: baseUrl, timeout: 5000, signal, retries: 0, bypassCircuit: true });
+    return parseResponse(healthSchema, response.data, 'GET /health');
   },
 
-  async getStatus() {
-    const response = await api.get('/status');
-    return response.data;
+  async getStatus(signal?: AbortSignal): Promise<StatusResponse> {
+    return shared(dedupeKey('GET', '/status'), async (requestSignal) => {
+      const response = await api.get('/status', { signal: requestSignal });
+      return parseResponse(statusSchema, response.data, 'GET /status');
+    }, signal);
   },
 
   // Languages
-  async getSupportedLanguages(): Promise<SupportedLanguagesResponse> {
-    const response = await api.get<SupportedLanguagesResponse>('/languages');
-    return response.data;
+  async getSupportedLanguages(signal?: AbortSignal): Promise<SupportedLanguagesResponse> {
+    return shared(dedupeKey('GET', '/languages'), async (requestSignal) => {
+      const response = await api.get('/languages', { signal: requestSignal });
+      return parseResponse(supportedLanguagesSchema, response.data, 'GET /languages');
+    }, signal);
   },
 
   // File upload
-  async uploadFiles(files: File[]): Promise<UploadResponse> {
+  async uploadFiles(files: File[], options: UploadRequestOptions = {}): Promise<UploadResponse> {
+    const { onProgress, signal, hashes, paths, metadata } = options;
     const formData = new FormData();
     files.forEach(file => {
       formData.append('files', file);
     });
+    if (hashes?.some(Boolean)) {
+      hashes.forEach(hash => formData.append('hashes', hash ?? ''));
+    }
+    if (paths?.some(Boolean)) {
+      paths.forEach(path => formData.append('paths', path ?? ''));
+    }
+    if (metadata?.some(Boolean)) {
+      metadata.forEach(meta => formData.append('metadata', meta ? JSON.stringify(meta) : ''));
+    }
 
-    const response = await api.post<UploadResponse>('/upload', formData, {
+    const response = await api.post('/upload', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      timeout: 0,
+      signal,
+      onUploadProgress: (event) => {
+        if (!onProgress) return;
+        const total = event.total ?? files.reduce((sum, file) => sum + file.size, 0);
+        onProgress({ loaded: event.loaded, total });
+      },
     });
-    return response.data;
+    return parseResponse(uploadResponseSchema, response.data, 'POST /upload');
+  },
+
+  // Server-side import: the backend fetches the page and extracts its text
+  async importUrl(request: UrlImportRequest, signal?: AbortSignal): Promise<UploadResponse> {
+    const response = await api.post('/ingest/url', request, { timeout: 0, signal });
+    return parseResponse(uploadResponseSchema, response.data, 'POST /ingest/url');
+  },
+
+  // Resumable chunked upload (see protocol notes in types/api.ts). The upload
+  // queue retries whole files, so these calls are never retried here.
+  async initChunkedUpload(request: ChunkedUploadInitRequest, signal?: AbortSignal): Promise<ChunkedUploadSession> {
+    const response = await api.post('/upload/chunked/init', request, { signal });
+    return parseResponse(chunkedUploadSessionSchema, response.data, 'POST /upload/chunked/init');
+  },
+
+  async getChunkedUploadStatus(uploadId: string, signal?: AbortSignal): Promise<ChunkedUploadSession> {
+    const response = await api.get(`/upload/chunked/${encodeURIComponent(uploadId)}`, { signal, retries: 0 });
+    return parseResponse(chunkedUploadSessionSchema, response.data, 'GET /upload/chunked/{upload_id}');
+  },
+
+  async uploadChunk(uploadId: string, index: number, chunk: Blob, options: UploadRequestOptions = {}): Promise<ChunkUploadResponse> {
+    const { onProgress, signal } = options;
+    const response = await api.put(
+      `/upload/chunked/${encodeURIComponent(uploadId)}/${index}`,
+      chunk,
+      {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+        },
+        timeout: 0,
+        signal,
+        retries: 0,
+        onUploadProgress: (event) => {
+          onProgress?.({ loaded: event.loaded, total: event.total ?? chunk.size });
+        },
+      },
+    );
+    return parseResponse(chunkUploadResponseSchema, response.data, 'PUT /upload/chunked/{upload_id}/{index}');
+  },
+
+  async completeChunkedUpload(uploadId: string, signal?: AbortSignal): Promise<UploadResponse> {
+    const response = await api.post(
+      `/upload/chunked/${encodeURIComponent(uploadId)}/complete`,
+      undefined,
+      { timeout: 0, signal },
+    );
+    return parseResponse(uploadResponseSchema, response.data, 'POST /upload/chunked/{upload_id}/complete');
+  },
+
+  async abortChunkedUpload(uploadId: string, signal?: AbortSignal): Promise<Acknowledgement> {
+    const response = await api.delete(`/upload/chunked/${encodeURIComponent(uploadId)}`, { signal, retries: 0 });
+    return parseResponse(acknowledgementSchema, response.data, 'DELETE /upload/chunked/{upload_id}');
   },
 
   // Query operations
-  async query(request: QueryRequest): Promise<QueryResponse> {
-    const response = await api.post<QueryResponse>('/query', request);
-    return normalizeQueryResponse(response.data);
+  async query(request: QueryRequest, signal?: AbortSignal): Promise<QueryResponse> {
+    return shared(dedupeKey('POST', '/query', request), async (requestSignal) => {
+      const response = await api.post('/query', request, { signal: requestSignal, idempotent: isReadOnlyQuery(request) });
+      return normalizeQueryResponse(response.data, 'POST /query');
+    }, signal);
   },
 
-  async search(query: string, threshold = 0.35, translate_to = 'en'): Promise<QueryResponse> {
-    const response = await api.post<QueryResponse>('/search', {
+  // Streams progress, partial results and refined_insight tokens to `onEvent`
+  // and resolves with the complete response. Uses fetch because axios cannot
+  // read a response body incrementally in the browser. Starting a stream
+  // cancels the previous one, so a late response never replaces a newer one.
+  async streamQuery(
+    request: QueryRequest,
+    onEvent: (event: QueryStreamEvent) => void,
+    callerSignal?: AbortSignal,
+  ): Promise<QueryResponse> {
+    // fetch bypasses the axios interceptors, so the circuit is checked and fed here
+    if (circuitBreaker.isOpen()) throw new CircuitOpenError();
+    const controller = supersede('streamQuery', callerSignal);
+    const { signal } = controller;
+    try {
+      const response = await readQueryStream(request, onEvent, signal);
+      circuitBreaker.recordSuccess();
+      return response;
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (isConnectionFailure(apiError)) circuitBreaker.recordFailure();
+      throw apiError;
+    } finally {
+      if (latestByChannel.get('streamQuery') === controller) latestByChannel.delete('streamQuery');
+    }
+  },
+
+  async search(query: string, threshold = DEFAULT_QUERY_THRESHOLD, translate_to = 'en', max_results?: number, signal?: AbortSignal): Promise<QueryResponse> {
+    const response = await api.post('/search', {
       query,
       action: 'search',
       threshold,
+      max_results,
       translate_to,
-    }, { timeout: 0 });
-    return normalizeQueryResponse(response.data);
+    }, { timeout: 0, signal, idempotent: true });
+    return normalizeQueryResponse(response.data, 'POST /search');
   },
 
-  async explore(query: string, threshold = 0.35): Promise<QueryResponse> {
-    const response = await api.post<QueryResponse>('/explore', {
+  async explore(query: string, threshold = DEFAULT_QUERY_THRESHOLD, max_results?: number, signal?: AbortSignal): Promise<QueryResponse> {
+    const response = await api.post('/explore', {
       query,
       action: 'explore',
       threshold,
-    }, { timeout: 0 });
-    return normalizeQueryResponse(response.data);
+      max_results,
+    }, { timeout: 0, signal, idempotent: true });
+    return normalizeQueryResponse(response.data, 'POST /explore');
   },
 
-  async think(query: string, threshold = 0.35, translate_to = 'en'): Promise<QueryResponse> {
-    const response = await api.post<QueryResponse>('/think', {
+  async think(query: string, threshold = DEFAULT_QUERY_THRESHOLD, translate_to = 'en', max_results?: number, signal?: AbortSignal): Promise<QueryResponse> {
+    const response = await api.post('/think', {
       query,
       action: 'think',
       threshold,
+      max_results,
       translate_to,
-    }, { timeout: 0 });
-    return normalizeQueryResponse(response.data);
+    }, { timeout: 0, signal, idempotent: true });
+    return normalizeQueryResponse(response.data, 'POST /think');
   },
 
-  async generatePPT(query: string, threshold = 0.35): Promise<QueryResponse> {
-    const response = await api.post<QueryResponse>('/ppt', {
+  async generatePPT(query: string, threshold = DEFAULT_QUERY_THRESHOLD, max_results?: number, signal?: AbortSignal): Promise<QueryResponse> {
+    const response = await api.post('/ppt', {
       query,
       action: 'ppt',
       threshold,
-    }, { timeout: 0 });
-    return normalizeQueryResponse(response.data);
+      max_results,
+    }, { timeout: 0, signal });
+    return normalizeQueryResponse(response.data, 'POST /ppt');
   },
 
   // Document management
-  async getDocuments(): Promise<DocumentsResponse> {
-    const response = await api.get<DocumentsResponse>('/documents');
-    return response.data;
+  async getDocuments(signal?: AbortSignal): Promise<DocumentsResponse> {
+    return shared(dedupeKey('GET', '/documents'), async (requestSignal) => {
+      const response = await api.get('/documents', { signal: requestSignal });
+      return parseResponse(documentsResponseSchema, response.data, 'GET /documents');
+    }, signal);
+  },
+
+  async getClusters(signal?: AbortSignal): Promise<ClustersResponse> {
+    return shared(dedupeKey('GET', '/clusters'), async (requestSignal) => {
+      const response = await api.get('/clusters', { signal: requestSignal });
+      return parseResponse(clustersSchema, response.data, 'GET /clusters');
+    }, signal);
+  },
+
+  async getDocument(name: string, signal?: AbortSignal): Promise<DocumentDetail> {
+    const path = `/documents/${encodeURIComponent(name)}`;
+    return shared(dedupeKey('GET', path), async (requestSignal) => {
+      const response = await api.get(path, { signal: requestSignal });
+      return parseResponse(documentDetailSchema, response.data, 'GET /documents/{name}');
+    }, signal);
+  },
+
+  // Original uploaded file, for rendering in the browser
+  async getDocumentFile(name: string, signal?: AbortSignal): Promise<Blob> {
+    const path = `/documents/${encodeURIComponent(name)}/file`;
+    return shared(dedupeKey('GET', path), async (requestSignal) => {
+      const response = await api.get(path, {
+        responseType: 'blob',
+        timeout: 0,
+        signal: requestSignal,
+      });
+      return response.data;
+    }, signal);
+  },
+
+  async deleteDocument(name: string, signal?: AbortSignal): Promise<DeleteDocumentResponse> {
+    const response = await api.delete(`/documents/${encodeURIComponent(name)}`, { signal });
+    return parseResponse(deleteDocumentSchema, response.data, 'DELETE /documents/{name}');
   },
 
-  async reloadDocuments() {
-    const response = await api.post('/documents/reload');
-    return response.data;
+  async deleteDocuments(names: string[], signal?: AbortSignal): Promise<BulkDocumentResponse> {
+    const request: BulkDocumentRequest = { names };
+    const response = await api.post('/documents/delete', request, { signal });
+    return parseResponse(bulkDocumentSchema, response.data, 'POST /documents/delete');
+  },
+
+  async reindexDocuments(names: string[], signal?: AbortSignal): Promise<BulkDocumentResponse> {
+    const request: BulkDocumentRequest = { names };
+    const response = await api.post('/documents/reindex', request, { timeout: 0, signal });
+    return parseResponse(bulkDocumentSchema, response.data, 'POST /documents/reindex');
+  },
+
+  async reloadDocuments(signal?: AbortSignal): Promise<Acknowledgement> {
+    const response = await api.post('/documents/reload', undefined, { signal });
+    return parseResponse(acknowledgementSchema, response.data, 'POST /documents/reload');
   },
 
   // Download PPT
-  async downloadPPT(path: string): Promise<Blob> {
-    const response = await api.get(`/ppt/download?path=${encodeURIComponent(path)}`, {
-      responseType: 'blob',
-    });
-    return response.data;
+  async downloadPPT(path: string, signal?: AbortSignal): Promise<Blob> {
+    const url = `/ppt/download?path=${encodeURIComponent(path)}`;
+    return shared(dedupeKey('GET', url), async (requestSignal) => {
+      const response = await api.get(url, {
+        responseType: 'blob',
+        signal: requestSignal,
+      });
+      return response.data;
+    }, signal);
   },
 
   // Open PPT (for preview/viewing)
-  async openPPT(path: string): Promise<string> {
-    const blob = await this.downloadPPT(path);
+  async openPPT(path: string, signal?: AbortSignal): Promise<string> {
+    const blob = await this.downloadPPT(path, signal);
     const url = window.URL.createObjectURL(blob);
     return url;
   },
 
+  // Analytics
+  async getQueryVolume(days = 30, signal?: AbortSignal): Promise<QueryVolumeResponse> {
+    return shared(dedupeKey('GET', '/analytics/queries', { days }), async (requestSignal) => {
+      const response = await api.get('/analytics/queries', { params: { days }, signal: requestSignal });
+      return parseResponse(queryVolumeSchema, response.data, 'GET /analytics/queries');
+    }, signal);
+  },
+
   // System operations
-  async resetSystem() {
-    const response = await api.delete('/reset');
-    return response.data;
+  // Wipes the backend, so it is never resent automatically
+  async resetSystem(signal?: AbortSignal): Promise<Acknowledgement> {
+    const response = await api.delete('/reset', { signal, idempotent: false });
+    return parseResponse(acknowledgementSchema, response.data, 'DELETE /reset');
   },
 };
 
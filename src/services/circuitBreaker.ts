@@ -0,0 +1,120 @@
+import axios from 'axios';
+import { profileStore } from './profiles';
+
+// Consecutive connection failures that open the circuit
+const FAILURE_THRESHOLD = 3;
+// /health probes while open back off from the first delay up to the last
+const FIRST_PROBE_DELAY = 2000;
+const MAX_PROBE_DELAY = 30000;
+const PROBE_TIMEOUT = 5000;
+
+export interface CircuitSnapshot {
+  // Open while the backend is unreachable; requests fail fast instead of being sent
+  open: boolean;
+  openedAt: number | null;
+  // When the next /health probe runs, while open
+  nextProbeAt: number | null;
+  probing: boolean;
+}
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+let snapshot: CircuitSnapshot = { open: false, openedAt: null, nextProbeAt: null, probing: false };
+let failures = 0;
+let probeDelay = FIRST_PROBE_DELAY;
+let probeTimer: ReturnType<typeof setTimeout> | null = null;
+
+function update(changes: Partial<CircuitSnapshot>) {
+  snapshot = { ...snapshot, ...changes };
+  listeners.forEach(listener => listener());
+}
+
+function clearProbe() {
+  if (probeTimer) clearTimeout(probeTimer);
+  probeTimer = null;
+}
+
+function scheduleProbe() {
+  clearProbe();
+  const delay = probeDelay;
+  probeDelay = Math.min(probeDelay * 2, MAX_PROBE_DELAY);
+  probeTimer = setTimeout(() => void probe(), delay);
+  update({ nextProbeAt: Date.now() + delay });
+}
+
+function close() {
+  clearProbe();
+  failures = 0;
+  probeDelay = FIRST_PROBE_DELAY;
+  if (snapshot.open) update({ open: false, openedAt: null, nextProbeAt: null, probing: false });
+}
+
+// Uses plain axios so the probe itself is never blocked by the open circuit
+async function probe() {
+  if (!snapshot.open || snapshot.probing) return;
+  clearProbe();
+  update({ probing: true, nextProbeAt: null });
+  try {
+    await axios.get('/health', { baseURL: profileStore.getActiveProfile().baseUrl, timeout: PROBE_TIMEOUT });
+    update({ probing: false });
+    close();
+  } catch {
+    update({ probing: false });
+    if (snapshot.open) scheduleProbe();
+  }
+}
+
+// Switching to a different backend starts with a clean slate; saving or
+// removing other profiles leaves the circuit alone
+const backendKey = () => {
+  const { id, baseUrl } = profileStore.getActiveProfile();
+  return `${id}|${baseUrl}`;
+};
+let activeBackend = backendKey();
+profileStore.subscribe(() => {
+  const next = backendKey();
+  if (next === activeBackend) return;
+  activeBackend = next;
+  close();
+});
+
+// Tracks whether the backend is reachable. The API client reports every
+// response and connection failure; after FAILURE_THRESHOLD failures in a row
+// the circuit opens, requests are rejected without being sent, and /health is
+// probed with backoff until it answers, which closes the circuit again.
+export const circuitBreaker = {
+  getState(): CircuitSnapshot {
+    return snapshot;
+  },
+
+  isOpen(): boolean {
+    return snapshot.open;
+  },
+
+  // Any response, even an error status, shows the server is up
+  recordSuccess() {
+    failures = 0;
+  },
+
+  recordFailure() {
+    failures++;
+    if (snapshot.open || failures < FAILURE_THRESHOLD) return;
+    probeDelay = FIRST_PROBE_DELAY;
+    update({ open: true, openedAt: Date.now() });
+    scheduleProbe();
+  },
+
+  // Probe now instead of waiting for the next scheduled check
+  probeNow() {
+    void probe();
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
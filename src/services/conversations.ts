@@ -0,0 +1,108 @@
+import { idbDelete, idbGetAll, idbPut } from '../lib/idb';
+import { answerText, extractCitations } from '../lib/conversation';
+import type { QueryRequest, QueryResponse } from '../types/api';
+import type { Conversation, ConversationTurn } from '../types/conversation';
+
+const STORE = 'conversations';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Most recently updated first
+let conversations: Conversation[] = [];
+let idCounter = 0;
+
+const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${++idCounter}`;
+
+function setConversations(next: Conversation[]) {
+  conversations = [...next].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  listeners.forEach(listener => listener());
+}
+
+function persist(conversation: Conversation) {
+  void idbPut(STORE, conversation).catch(() => undefined);
+}
+
+function createTurn(parentId: string | null, question: string, response: QueryResponse): ConversationTurn {
+  return {
+    id: nextId('turn'),
+    parent_id: parentId,
+    question,
+    answer: answerText(response),
+    citations: extractCitations(response),
+    response,
+    created_at: new Date().toISOString(),
+  };
+}
+
+function updateConversation(id: string, update: (conversation: Conversation) => Conversation) {
+  const current = conversations.find(c => c.id === id);
+  if (!current) return;
+  const updated = update(current);
+  setConversations(conversations.map(c => (c.id === id ? updated : c)));
+  persist(updated);
+}
+
+void idbGetAll<Conversation>(STORE)
+  .then(stored => {
+    const known = new Set(conversations.map(c => c.id));
+    setConversations([...conversations, ...stored.filter(c => !known.has(c.id))]);
+  })
+  .catch(() => undefined);
+
+export const conversationStore = {
+  getConversations(): Conversation[] {
+    return conversations;
+  },
+
+  // Turns a one-shot Think result into the opening turn of a conversation
+  start(request: Pick<QueryRequest, 'query' | 'filters' | 'threshold' | 'max_results' | 'translate_to'>, response: QueryResponse): Conversation {
+    const turn = createTurn(null, request.query, response);
+    const conversation: Conversation = {
+      id: nextId('conversation'),
+      title: request.query,
+      turns: [turn],
+      active_leaf_id: turn.id,
+      filters: request.filters,
+      threshold: request.threshold,
+      max_results: request.max_results,
+      translate_to: request.translate_to,
+      created_at: turn.created_at,
+      updated_at: turn.created_at,
+    };
+    setConversations([conversation, ...conversations]);
+    persist(conversation);
+    return conversation;
+  },
+
+  // Adds an answered follow-up under `parentId` and makes it the active thread
+  addTurn(id: string, parentId: string, question: string, response: QueryResponse): ConversationTurn {
+    const turn = createTurn(parentId, question, response);
+    updateConversation(id, conversation => ({
+      ...conversation,
+      turns: [...conversation.turns, turn],
+      active_leaf_id: turn.id,
+      updated_at: turn.created_at,
+    }));
+    return turn;
+  },
+
+  setActiveLeaf(id: string, leafId: string) {
+    updateConversation(id, conversation => ({ ...conversation, active_leaf_id: leafId }));
+  },
+
+  remove(id: string) {
+    setConversations(conversations.filter(c => c.id !== id));
+    void idbDelete(STORE, id).catch(() => undefined);
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default conversationStore;
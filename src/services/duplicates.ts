@@ -0,0 +1,105 @@
+import { apiService } from './api';
+import { idbDelete, idbGetAll, idbPut } from '../lib/idb';
+import type { DuplicateMatch, UploadQueueItem } from '../types/upload';
+
+const STORE = 'uploadedHashes';
+
+// Web Crypto has no streaming digest, so very large files are not hashed
+export const MAX_HASH_SIZE = 512 * 1024 * 1024;
+
+interface UploadedHashRecord {
+  hash: string;
+  name: string;
+  uploaded_at: string;
+}
+
+export async function hashFile(file: File): Promise<string | null> {
+  if (file.size > MAX_HASH_SIZE || !window.crypto?.subtle) return null;
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  } catch {
+    return null;
+  }
+}
+
+// Remember what this browser uploaded, for backends that do not report hashes
+export async function rememberUploadedHashes(entries: Array<{ hash: string; name: string }>) {
+  const uploadedAt = new Date().toISOString();
+  await Promise.all(entries.map(entry => (
+    idbPut<UploadedHashRecord>(STORE, { ...entry, uploaded_at: uploadedAt }).catch(() => undefined)
+  )));
+}
+
+// Hashes of documents currently in the library, mapped to the document name.
+// Backend-reported hashes win; local records for deleted documents are pruned.
+export async function getLibraryHashes(): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  const local = await idbGetAll<UploadedHashRecord>(STORE).catch(() => [] as UploadedHashRecord[]);
+
+  let libraryNames: Set<string> | null = null;
+  try {
+    const library = await apiService.getDocuments();
+    libraryNames = new Set(library.documents.map(doc => doc.name));
+    library.documents.forEach(doc => {
+      if (doc.content_hash) hashes.set(doc.content_hash, doc.name);
+    });
+  } catch {
+    // Offline: fall back to what this browser uploaded
+  }
+
+  for (const record of local) {
+    if (libraryNames && !libraryNames.has(record.name)) {
+      void idbDelete(STORE, record.hash).catch(() => undefined);
+      continue;
+    }
+    if (!hashes.has(record.hash)) hashes.set(record.hash, record.name);
+  }
+  return hashes;
+}
+
+// Compare freshly picked files against the library, the queue and each other
+export async function findDuplicates(
+  files: File[],
+  queue: UploadQueueItem[],
+): Promise<{ hashes: Map<File, string>; duplicates: DuplicateMatch[] }> {
+  const libraryHashes = await getLibraryHashes();
+  // One at a time: each file is read whole into memory to be hashed
+  const digests: Array<string | null> = [];
+  for (const file of files) {
+    digests.push(await hashFile(file));
+  }
+
+  const queued = new Map<string, UploadQueueItem>();
+  queue
+    .filter(item => item.hash && item.status !== 'cancelled')
+    .forEach(item => queued.set(item.hash!, item));
+
+  const hashes = new Map<File, string>();
+  const seenInPick = new Map<string, File>();
+  const duplicates: DuplicateMatch[] = [];
+
+  files.forEach((file, index) => {
+    const hash = digests[index];
+    if (!hash) return;
+    hashes.set(file, hash);
+
+    const libraryName = libraryHashes.get(hash);
+    const queuedItem = queued.get(hash);
+    const earlierPick = seenInPick.get(hash);
+
+    if (libraryName) {
+      duplicates.push({ file, hash, source: 'library', existingName: libraryName });
+    } else if (queuedItem) {
+      duplicates.push({ file, hash, source: 'queue', existingName: queuedItem.file.name, existingId: queuedItem.id });
+    } else if (earlierPick) {
+      duplicates.push({ file, hash, source: 'queue', existingName: earlierPick.name });
+    } else {
+      seenInPick.set(hash, file);
+    }
+  });
+
+  return { hashes, duplicates };
+}
@@ -0,0 +1,80 @@
+import { unzip, type Unzipped } from 'fflate';
+import type { FileWithPath } from 'react-dropzone';
+import { isAcceptedFile, isArchiveFile, mimeTypeForName } from '../lib/fileTypes';
+
+export interface IngestedFile {
+  file: File;
+  // Folder path inside the dropped directory or archive, e.g. "bundle/reports/q1.pdf"
+  relativePath?: string;
+}
+
+export interface IngestResult {
+  files: IngestedFile[];
+  // Entries that were not a supported document type
+  skipped: string[];
+}
+
+// Dropzone paths look like "/folder/file.pdf" or "./file.pdf"
+function normalizePath(path: string | undefined): string | undefined {
+  if (!path) return undefined;
+  const cleaned = path.replace(/\\/g, '/').replace(/^\.?\/+/, '');
+  return cleaned.includes('/') ? cleaned : undefined;
+}
+
+// Hidden files and macOS resource forks are noise, not documents
+function isJunkEntry(path: string): boolean {
+  return path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+}
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => {
+    unzip(data, {
+      filter: entry => !entry.name.endsWith('/') && !isJunkEntry(entry.name)
+        && (isAcceptedFile(entry.name) || isArchiveFile(entry.name)),
+    }, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+}
+
+async function expandArchive(archive: File, basePath: string, result: IngestResult) {
+  let entries: Unzipped;
+  try {
+    entries = await unzipAsync(new Uint8Array(await archive.arrayBuffer()));
+  } catch {
+    result.skipped.push(`${basePath} (unreadable archive)`);
+    return;
+  }
+
+  for (const [entryPath, data] of Object.entries(entries)) {
+    const name = entryPath.split('/').pop() ?? entryPath;
+    const fullPath = `${basePath}/${entryPath}`;
+    const file = new File([data], name, { type: mimeTypeForName(name), lastModified: archive.lastModified });
+
+    if (isArchiveFile(name)) {
+      await expandArchive(file, fullPath.replace(/\.zip$/i, ''), result);
+    } else {
+      result.files.push({ file, relativePath: fullPath });
+    }
+  }
+}
+
+// Expand dropped folders and .zip archives into individual documents,
+// keeping each document's path relative to what was dropped.
+export async function ingestFiles(dropped: File[]): Promise<IngestResult> {
+  const result: IngestResult = { files: [], skipped: [] };
+
+  for (const file of dropped as FileWithPath[]) {
+    const relativePath = normalizePath(file.path || file.webkitRelativePath);
+    if (relativePath && isJunkEntry(relativePath)) continue;
+
+    if (isArchiveFile(file.name)) {
+      const archivePath = (relativePath ?? file.name).replace(/\.zip$/i, '');
+      await expandArchive(file, archivePath, result);
+    } else if (isAcceptedFile(file.name)) {
+      result.files.push({ file, relativePath });
+    } else {
+      result.skipped.push(relativePath ?? file.name);
+    }
+  }
+
+  return result;
+}
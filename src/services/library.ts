@@ -0,0 +1,132 @@
+import type { DocumentCollection, DocumentLabels, LibraryOrganization } from '../types/library';
+import { profileStore } from './profiles';
+
+const STORAGE_PREFIX = 'summary.library.';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Tags are compared case-insensitively, so store them in one canonical form
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+// Each backend has its own library, so organization is stored per profile
+function storageKey(): string {
+  return `${STORAGE_PREFIX}${profileStore.getActiveProfile().id}`;
+}
+
+function readOrganization(): LibraryOrganization {
+  try {
+    const raw = localStorage.getItem(storageKey());
+    const parsed = raw ? JSON.parse(raw) : null;
+    return {
+      tags: parsed && typeof parsed.tags === 'object' ? parsed.tags : {},
+      collections: Array.isArray(parsed?.collections) ? parsed.collections : [],
+    };
+  } catch {
+    return { tags: {}, collections: [] };
+  }
+}
+
+let organization: LibraryOrganization = readOrganization();
+
+function setOrganization(next: LibraryOrganization) {
+  organization = next;
+  localStorage.setItem(storageKey(), JSON.stringify(organization));
+  listeners.forEach(listener => listener());
+}
+
+function updateTags(names: string[], update: (tags: string[]) => string[]) {
+  const tags = { ...organization.tags };
+  for (const name of names) {
+    const next = update(tags[name] ?? []);
+    if (next.length > 0) tags[name] = next;
+    else delete tags[name];
+  }
+  setOrganization({ ...organization, tags });
+}
+
+function updateCollection(id: string, update: (collection: DocumentCollection) => DocumentCollection) {
+  setOrganization({
+    ...organization,
+    collections: organization.collections.map(c => (c.id === id ? update(c) : c)),
+  });
+}
+
+profileStore.subscribe(() => {
+  organization = readOrganization();
+  listeners.forEach(listener => listener());
+});
+
+// User-defined tags and named collections for the document library
+export const libraryStore = {
+  getOrganization(): LibraryOrganization {
+    return organization;
+  },
+
+  addTags(names: string[], tags: string[]) {
+    const added = tags.map(normalizeTag).filter(Boolean);
+    if (added.length === 0) return;
+    updateTags(names, current => [...new Set([...current, ...added])]);
+  },
+
+  removeTag(names: string[], tag: string) {
+    updateTags(names, current => current.filter(t => t !== tag));
+  },
+
+  createCollection(name: string): DocumentCollection {
+    const collection: DocumentCollection = {
+      id: `collection-${Date.now().toString(36)}`,
+      name: name.trim(),
+      documents: [],
+    };
+    setOrganization({ ...organization, collections: [...organization.collections, collection] });
+    return collection;
+  },
+
+  renameCollection(id: string, name: string) {
+    updateCollection(id, c => ({ ...c, name: name.trim() }));
+  },
+
+  removeCollection(id: string) {
+    setOrganization({ ...organization, collections: organization.collections.filter(c => c.id !== id) });
+  },
+
+  addToCollection(id: string, names: string[]) {
+    updateCollection(id, c => ({ ...c, documents: [...new Set([...c.documents, ...names])] }));
+  },
+
+  removeFromCollection(id: string, names: string[]) {
+    updateCollection(id, c => ({ ...c, documents: c.documents.filter(name => !names.includes(name)) }));
+  },
+
+  // Labels chosen at upload time, applied once the backend has accepted the file
+  applyLabels(name: string, labels: DocumentLabels) {
+    libraryStore.addTags([name], labels.tags);
+    labels.collections.forEach(id => libraryStore.addToCollection(id, [name]));
+  },
+
+  // Drop deleted documents from tags and collections
+  forgetDocuments(names: string[]) {
+    const forget = new Set(names);
+    const tags = Object.fromEntries(Object.entries(organization.tags).filter(([name]) => !forget.has(name)));
+    setOrganization({
+      tags,
+      collections: organization.collections.map(c => ({
+        ...c,
+        documents: c.documents.filter(name => !forget.has(name)),
+      })),
+    });
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default libraryStore;
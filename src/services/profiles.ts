@@ -0,0 +1,98 @@
+import type { BackendProfile } from '../types/api';
+
+// Fallback when VITE_API_URL is not provided at build time
+const FALLBACK_API_URL = 'http://localhost:8000';
+
+const STORAGE_KEY = 'summary.backendProfiles';
+const ACTIVE_KEY = 'summary.activeBackendProfile';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const ENV_API_URL: string = normalizeBaseUrl(import.meta.env.VITE_API_URL || FALLBACK_API_URL);
+
+const defaultProfile: BackendProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  baseUrl: ENV_API_URL,
+};
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Strip trailing slashes so paths like '/health' join cleanly
+export function normalizeBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+function readProfiles(): BackendProfile[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(p => p && p.id !== DEFAULT_PROFILE_ID) : [];
+  } catch {
+    return [];
+  }
+}
+
+let profiles: BackendProfile[] = [defaultProfile, ...readProfiles()];
+let activeId: string = (() => {
+  const stored = localStorage.getItem(ACTIVE_KEY);
+  return stored && profiles.some(p => p.id === stored) ? stored : DEFAULT_PROFILE_ID;
+})();
+
+function persist() {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles.filter(p => p.id !== DEFAULT_PROFILE_ID)));
+  localStorage.setItem(ACTIVE_KEY, activeId);
+  listeners.forEach(listener => listener());
+}
+
+// Named backend profiles, persisted in localStorage. The "Default" profile
+// always mirrors VITE_API_URL and cannot be edited or removed.
+export const profileStore = {
+  getProfiles(): BackendProfile[] {
+    return profiles;
+  },
+
+  getActiveProfile(): BackendProfile {
+    return profiles.find(p => p.id === activeId) ?? defaultProfile;
+  },
+
+  setActiveProfile(id: string) {
+    if (id === activeId || !profiles.some(p => p.id === id)) return;
+    activeId = id;
+    persist();
+  },
+
+  saveProfile(profile: Omit<BackendProfile, 'id'> & { id?: string }): BackendProfile {
+    const saved: BackendProfile = {
+      id: profile.id ?? `profile-${Date.now().toString(36)}`,
+      name: profile.name.trim(),
+      baseUrl: normalizeBaseUrl(profile.baseUrl),
+    };
+    if (saved.id === DEFAULT_PROFILE_ID) return defaultProfile;
+
+    const exists = profiles.some(p => p.id === saved.id);
+    profiles = exists
+      ? profiles.map(p => (p.id === saved.id ? saved : p))
+      : [...profiles, saved];
+    persist();
+    return saved;
+  },
+
+  removeProfile(id: string) {
+    if (id === DEFAULT_PROFILE_ID) return;
+    profiles = profiles.filter(p => p.id !== id);
+    if (activeId === id) activeId = DEFAULT_PROFILE_ID;
+    persist();
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default profileStore;
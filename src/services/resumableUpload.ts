@@ -0,0 +1,140 @@
+import { ApiError, apiService } from './api';
+import { idbDelete, idbGet, idbGetAll, idbPut } from '../lib/idb';
+import type { DocumentSourceMetadata, UploadRequestOptions, UploadResponse } from '../types/api';
+import type { ResumableUploadRecord } from '../types/upload';
+
+const STORE = 'resumableUploads';
+
+// Files at or above this size go through the chunked protocol
+export const CHUNKED_UPLOAD_THRESHOLD = 20 * 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+export function shouldUploadInChunks(file: File): boolean {
+  return file.size >= CHUNKED_UPLOAD_THRESHOLD;
+}
+
+// Identifies the same file across page reloads without reading its contents
+export function fingerprintFile(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function recordProgress(record: ResumableUploadRecord): number {
+  return record.total_chunks > 0
+    ? Math.round((record.uploaded_chunks.length / record.total_chunks) * 100)
+    : 0;
+}
+
+export const resumableStore = {
+  list(): Promise<ResumableUploadRecord[]> {
+    return idbGetAll<ResumableUploadRecord>(STORE).catch(() => []);
+  },
+
+  get(fingerprint: string): Promise<ResumableUploadRecord | undefined> {
+    return idbGet<ResumableUploadRecord>(STORE, fingerprint).catch(() => undefined);
+  },
+
+  async save(record: ResumableUploadRecord) {
+    await idbPut(STORE, { ...record, updated_at: new Date().toISOString() }).catch(() => undefined);
+  },
+
+  async remove(fingerprint: string) {
+    await idbDelete(STORE, fingerprint).catch(() => undefined);
+  },
+
+  // Drop local progress and tell the server to free the stored chunks
+  async discard(record: ResumableUploadRecord) {
+    await apiService.abortChunkedUpload(record.upload_id).catch(() => undefined);
+    await resumableStore.remove(record.fingerprint);
+  },
+};
+
+// Pick up a previous session if the server still has it, otherwise start one
+interface SessionDetails {
+  hash?: string;
+  relativePath?: string;
+  metadata?: DocumentSourceMetadata;
+}
+
+async function openSession(file: File, details: SessionDetails, signal?: AbortSignal): Promise<ResumableUploadRecord> {
+  const fingerprint = fingerprintFile(file);
+  const existing = await resumableStore.get(fingerprint);
+
+  if (existing) {
+    try {
+      const session = await apiService.getChunkedUploadStatus(existing.upload_id, signal);
+      return { ...existing, uploaded_chunks: session.received_chunks };
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 404) throw error;
+      // Session expired on the server: start over
+      await resumableStore.remove(fingerprint);
+    }
+  }
+
+  const session = await apiService.initChunkedUpload({
+    filename: file.name,
+    size: file.size,
+    mime_type: file.type || 'application/octet-stream',
+    chunk_size: DEFAULT_CHUNK_SIZE,
+    fingerprint,
+    content_hash: details.hash,
+    relative_path: details.relativePath,
+    metadata: details.metadata,
+  }, signal);
+  const record: ResumableUploadRecord = {
+    fingerprint,
+    upload_id: session.upload_id,
+    filename: file.name,
+    size: file.size,
+    mime_type: file.type,
+    last_modified: file.lastModified,
+    chunk_size: session.chunk_size,
+    total_chunks: session.total_chunks ?? Math.ceil(file.size / session.chunk_size),
+    uploaded_chunks: session.received_chunks ?? [],
+    content_hash: details.hash,
+    relative_path: details.relativePath,
+    metadata: details.metadata,
+    updated_at: new Date().toISOString(),
+  };
+  await resumableStore.save(record);
+  return record;
+}
+
+// Upload a single file chunk by chunk, persisting progress after every chunk so
+// an interrupted upload continues where it stopped.
+export async function uploadResumable(
+  file: File,
+  options: Pick<UploadRequestOptions, 'onProgress' | 'signal'> & SessionDetails = {},
+): Promise<UploadResponse> {
+  const { onProgress, signal, ...details } = options;
+  const record = await openSession(file, details, signal);
+  const uploaded = new Set(record.uploaded_chunks);
+
+  const bytesDone = () => Array.from(uploaded).reduce((sum, index) => (
+    sum + Math.min(record.chunk_size, file.size - index * record.chunk_size)
+  ), 0);
+
+  onProgress?.({ loaded: bytesDone(), total: file.size });
+
+  for (let index = 0; index < record.total_chunks; index++) {
+    if (uploaded.has(index)) continue;
+
+    const start = index * record.chunk_size;
+    const chunk = file.slice(start, Math.min(start + record.chunk_size, file.size));
+    const before = bytesDone();
+
+    await apiService.uploadChunk(record.upload_id, index, chunk, {
+      signal,
+      onProgress: ({ loaded, total }) => {
+        const sent = total > 0 ? (loaded / total) * chunk.size : 0;
+        onProgress?.({ loaded: before + sent, total: file.size });
+      },
+    });
+
+    uploaded.add(index);
+    await resumableStore.save({ ...record, uploaded_chunks: Array.from(uploaded) });
+  }
+
+  const response = await apiService.completeChunkedUpload(record.upload_id, signal);
+  await resumableStore.remove(record.fingerprint);
+  return response;
+}
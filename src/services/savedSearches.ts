@@ -0,0 +1,73 @@
+import type { SavedSearch, SavedSearchInput } from '../types/savedSearch';
+
+const STORAGE_KEY = 'summary.savedSearches';
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+function readSavedSearches(): SavedSearch[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+let savedSearches: SavedSearch[] = readSavedSearches();
+
+function setSavedSearches(next: SavedSearch[]) {
+  savedSearches = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(savedSearches));
+  listeners.forEach(listener => listener());
+}
+
+// Saved searches and templates, shared across backend profiles
+export const savedSearchStore = {
+  getSavedSearches(): SavedSearch[] {
+    return savedSearches;
+  },
+
+  save(input: SavedSearchInput): SavedSearch {
+    const now = new Date().toISOString();
+    const saved: SavedSearch = {
+      ...input,
+      id: `saved-${Date.now().toString(36)}`,
+      name: input.name.trim(),
+      query: input.query.trim(),
+      created_at: now,
+      updated_at: now,
+    };
+    setSavedSearches([...savedSearches, saved].sort((a, b) => a.name.localeCompare(b.name)));
+    return saved;
+  },
+
+  update(id: string, input: Partial<SavedSearchInput>) {
+    setSavedSearches(
+      savedSearches
+        .map(saved => (saved.id === id ? {
+          ...saved,
+          ...input,
+          name: (input.name ?? saved.name).trim(),
+          query: (input.query ?? saved.query).trim(),
+          updated_at: new Date().toISOString(),
+        } : saved))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    );
+  },
+
+  remove(id: string) {
+    setSavedSearches(savedSearches.filter(saved => saved.id !== id));
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default savedSearchStore;
@@ -0,0 +1,114 @@
+import { idbDelete, idbGetAll, idbPut } from '../lib/idb';
+import type { QueryRequest, QueryResponse } from '../types/api';
+import type { SearchHistoryEntry } from '../types/history';
+import { DEFAULT_PROFILE_ID, profileStore } from './profiles';
+
+const STORE = 'searchHistory';
+
+// Full responses are stored, so keep the history bounded (across all profiles)
+const MAX_ENTRIES = 200;
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+// Newest first, for every profile
+let entries: SearchHistoryEntry[] = [];
+// Each backend has its own library, so only the active profile's runs are
+// listed and compared
+let activeProfileId = profileStore.getActiveProfile().id;
+let profileEntries: SearchHistoryEntry[] = [];
+let entryCounter = 0;
+
+function setEntries(next: SearchHistoryEntry[]) {
+  entries = next;
+  profileEntries = entries.filter(entry => entry.profile_id === activeProfileId);
+  listeners.forEach(listener => listener());
+}
+
+profileStore.subscribe(() => {
+  const next = profileStore.getActiveProfile().id;
+  if (next === activeProfileId) return;
+  activeProfileId = next;
+  setEntries(entries);
+});
+
+// Two runs are comparable when everything that affects the results matches
+export function requestKey(request: QueryRequest): string {
+  return JSON.stringify([
+    request.query.trim().toLowerCase(),
+    request.action,
+    request.threshold ?? null,
+    request.max_results ?? null,
+    request.translate_to ?? null,
+    request.filters ?? null,
+  ]);
+}
+
+void idbGetAll<SearchHistoryEntry>(STORE)
+  .then(stored => {
+    // Entries recorded before the load finished are already newest-first
+    const known = new Set(entries.map(entry => entry.id));
+    // Entries saved before history was kept per profile belong to the default one
+    const restored = stored
+      .filter(entry => !known.has(entry.id))
+      .map(entry => (entry.profile_id ? entry : { ...entry, profile_id: DEFAULT_PROFILE_ID }));
+    setEntries([...entries, ...restored].sort((a, b) => b.created_at.localeCompare(a.created_at)));
+  })
+  .catch(() => undefined);
+
+export const searchHistory = {
+  // The active profile's entries
+  getEntries(): SearchHistoryEntry[] {
+    return profileEntries;
+  },
+
+  record(request: QueryRequest, response: QueryResponse): SearchHistoryEntry {
+    const entry: SearchHistoryEntry = {
+      id: `search-${Date.now().toString(36)}-${++entryCounter}`,
+      profile_id: activeProfileId,
+      request,
+      response,
+      created_at: new Date().toISOString(),
+    };
+    const overflow = entries.slice(MAX_ENTRIES - 1);
+    setEntries([entry, ...entries.slice(0, MAX_ENTRIES - 1)]);
+
+    void idbPut(STORE, entry).catch(() => undefined);
+    overflow.forEach(old => void idbDelete(STORE, old.id).catch(() => undefined));
+    return entry;
+  },
+
+  // The most recent run of the same request against the same profile, before
+  // `before` (or before now)
+  findPreviousRun(request: QueryRequest, before?: SearchHistoryEntry): SearchHistoryEntry | undefined {
+    const key = requestKey(request);
+    const profileId = before?.profile_id ?? activeProfileId;
+    return entries.find(entry => (
+      entry.profile_id === profileId &&
+      (!before || entry.created_at < before.created_at) &&
+      requestKey(entry.request) === key
+    ));
+  },
+
+  remove(id: string) {
+    setEntries(entries.filter(entry => entry.id !== id));
+    void idbDelete(STORE, id).catch(() => undefined);
+  },
+
+  // Clears the active profile's history; other profiles keep theirs
+  clear() {
+    const cleared = profileEntries;
+    setEntries(entries.filter(entry => entry.profile_id !== activeProfileId));
+    cleared.forEach(entry => void idbDelete(STORE, entry.id).catch(() => undefined));
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export default searchHistory;
@@ -0,0 +1,427 @@
+import { ApiError, apiService, CircuitOpenError, isCancelledRequest, NetworkError, TimeoutError } from './api';
+import { rememberUploadedHashes } from './duplicates';
+import { libraryStore } from './library';
+import { hasBlockingIssues } from './validation';
+import {
+  fingerprintFile,
+  recordProgress,
+  resumableStore,
+  shouldUploadInChunks,
+  uploadResumable,
+} from './resumableUpload';
+import type { UploadResponse, UploadedFileResult } from '../types/api';
+import type {
+  ResumableUploadRecord,
+  UploadQueueConfig,
+  UploadQueueEntry,
+  UploadQueueItem,
+  UploadQueueSummary,
+} from '../types/upload';
+
+const CONFIG_KEY = 'summary.uploadQueueConfig';
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+const DEFAULT_CONFIG: UploadQueueConfig = {
+  concurrency: 2,
+  batchSize: 1,
+  maxRetries: 3,
+};
+
+interface QueueState {
+  items: UploadQueueItem[];
+  config: UploadQueueConfig;
+  // Interrupted chunked uploads from earlier sessions, waiting for their file
+  resumable: ResumableUploadRecord[];
+}
+
+type Listener = () => void;
+type CompletionListener = (response: UploadResponse) => void;
+type DrainListener = (summary: UploadQueueSummary) => void;
+
+function readConfig(): UploadQueueConfig {
+  try {
+    const raw = localStorage.getItem(CONFIG_KEY);
+    return raw ? { ...DEFAULT_CONFIG, ...JSON.parse(raw) } : DEFAULT_CONFIG;
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+}
+
+let state: QueueState = { items: [], config: readConfig(), resumable: [] };
+let itemCounter = 0;
+
+const listeners = new Set<Listener>();
+const completionListeners = new Set<CompletionListener>();
+const drainListeners = new Set<DrainListener>();
+
+// In-flight requests and pending retry timers, keyed by item id
+const controllers = new Map<string, AbortController>();
+const retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let activeRequests = 0;
+let runSummary: UploadQueueSummary = { succeeded: 0, failed: 0, cancelled: 0 };
+
+function setState(next: Partial<QueueState>) {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+}
+
+function updateItems(ids: Set<string>, patch: (item: UploadQueueItem) => Partial<UploadQueueItem>) {
+  setState({
+    items: state.items.map(item => (ids.has(item.id) ? { ...item, ...patch(item) } : item)),
+  });
+}
+
+function takeNextBatch(): UploadQueueItem[] {
+  const pending = state.items.filter(item => item.status === 'pending');
+  if (pending.length === 0) return [];
+  // Chunked uploads always travel alone
+  if (pending[0].resumable) return [pending[0]];
+  return pending.filter(item => !item.resumable).slice(0, state.config.batchSize);
+}
+
+// Network drops, timeouts, rate limiting and gateway errors are worth retrying.
+// A 500 or another 4xx will fail the same way again, as will every request
+// while the circuit is open. The API client does not retry upload calls, so
+// this is the only retry layer for them.
+function isTransient(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  return error instanceof ApiError && [408, 429, 502, 503, 504].includes(error.status ?? 0);
+}
+
+function retryDelay(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Files are sent in one multipart body in order, so the bytes sent so far
+// can be attributed to each file by walking their cumulative sizes.
+function distributeProgress(batch: UploadQueueItem[], loaded: number, total: number) {
+  const totalSize = batch.reduce((sum, item) => sum + item.file.size, 0);
+  const sentBytes = total > 0 ? (loaded / total) * totalSize : 0;
+  const progressById = new Map<string, number>();
+  let offset = 0;
+  for (const item of batch) {
+    const sent = Math.min(Math.max(sentBytes - offset, 0), item.file.size);
+    progressById.set(item.id, item.file.size === 0 ? 100 : Math.round((sent / item.file.size) * 100));
+    offset += item.file.size;
+  }
+  return progressById;
+}
+
+// Match backend per-file results to the items that were sent
+function matchResults(batch: UploadQueueItem[], response: UploadResponse) {
+  const remaining = [...(response.uploaded_files ?? [])];
+  const resultById = new Map<string, UploadedFileResult>();
+  for (const item of batch) {
+    const index = remaining.findIndex(r => r.filename === item.file.name);
+    if (index !== -1) {
+      resultById.set(item.id, remaining[index]);
+      remaining.splice(index, 1);
+    }
+  }
+  return resultById;
+}
+
+// Marks each item done or failed and returns the library names of the ones that succeeded
+function applyResults(batch: UploadQueueItem[], response: UploadResponse): Map<string, string> {
+  const resultById = matchResults(batch, response);
+  const succeededIds = new Set<string>();
+  const failedMessages = new Map<string, string>();
+
+  for (const item of batch) {
+    const result = resultById.get(item.id);
+    if (!result) {
+      // No per-file entry: fall back to the overall outcome
+      if (response.success) succeededIds.add(item.id);
+      else failedMessages.set(item.id, response.message || 'Upload failed');
+    } else if (result.status === 'success' && !result.error) {
+      succeededIds.add(item.id);
+    } else {
+      failedMessages.set(item.id, result.error || result.message || 'Upload failed');
+    }
+  }
+
+  updateItems(new Set(batch.map(item => item.id)), item => (
+    succeededIds.has(item.id)
+      ? { status: 'success', progress: 100, message: resultById.get(item.id)?.message }
+      : { status: 'error', progress: 100, message: failedMessages.get(item.id) }
+  ));
+
+  runSummary.succeeded += succeededIds.size;
+  runSummary.failed += failedMessages.size;
+
+  const uploadedNames = new Map(batch
+    .filter(item => succeededIds.has(item.id))
+    .map(item => [item.id, resultById.get(item.id)?.filename ?? item.file.name]));
+
+  batch
+    .filter(item => uploadedNames.has(item.id) && item.labels)
+    .forEach(item => libraryStore.applyLabels(uploadedNames.get(item.id)!, item.labels!));
+
+  void rememberUploadedHashes(batch
+    .filter(item => uploadedNames.has(item.id) && item.hash)
+    .map(item => ({ hash: item.hash!, name: uploadedNames.get(item.id)! })));
+
+  return uploadedNames;
+}
+
+// A "replace" pick removes the library copy only once its successor is in the
+// library, so a failed or cancelled upload never loses the original. A 404
+// means it is already gone, and an upload under the same name has overwritten
+// it. A failed delete leaves the upload in place and is reported on the item.
+async function removeReplacedDocuments(
+  batch: UploadQueueItem[],
+  uploadedNames: Map<string, string>,
+  signal: AbortSignal,
+) {
+  for (const item of batch) {
+    const uploadedName = uploadedNames.get(item.id);
+    if (!item.replaces || !uploadedName) continue;
+    if (uploadedName !== item.replaces) {
+      try {
+        await apiService.deleteDocument(item.replaces, signal);
+      } catch (error) {
+        if (isCancelledRequest(error)) return;
+        if (!(error instanceof ApiError) || error.status !== 404) {
+          const reason = error instanceof Error ? error.message : 'Delete failed';
+          updateItems(new Set([item.id]), () => ({ replaceError: `Uploaded, but ${item.replaces} could not be removed: ${reason}` }));
+          continue;
+        }
+      }
+    }
+    updateItems(new Set([item.id]), () => ({ replaces: undefined }));
+  }
+}
+
+function finishIfDrained() {
+  const busy = state.items.some(item => (
+    item.status === 'pending' || item.status === 'uploading' || item.status === 'retrying'
+  ));
+  if (busy || activeRequests > 0) return;
+
+  const summary = runSummary;
+  runSummary = { succeeded: 0, failed: 0, cancelled: 0 };
+  if (summary.succeeded + summary.failed + summary.cancelled > 0) {
+    drainListeners.forEach(listener => listener(summary));
+  }
+}
+
+async function sendBatch(batch: UploadQueueItem[]) {
+  const ids = new Set(batch.map(item => item.id));
+  const controller = new AbortController();
+  batch.forEach(item => controllers.set(item.id, controller));
+  activeRequests++;
+  updateItems(ids, item => ({ status: 'uploading', progress: 0, attempts: item.attempts + 1, message: undefined }));
+
+  try {
+    const options = {
+      signal: controller.signal,
+      onProgress: ({ loaded, total }: { loaded: number; total: number }) => {
+        const progressById = distributeProgress(batch, loaded, total);
+        updateItems(ids, item => ({ progress: progressById.get(item.id) ?? item.progress }));
+      },
+    };
+    const response = batch[0].resumable
+      ? await uploadResumable(batch[0].file, {
+        ...options,
+        hash: batch[0].hash,
+        relativePath: batch[0].relativePath,
+        metadata: batch[0].metadata,
+      })
+      : await apiService.uploadFiles(batch.map(item => item.file), {
+        ...options,
+        hashes: batch.map(item => item.hash),
+        paths: batch.map(item => item.relativePath),
+        metadata: batch.map(item => item.metadata),
+      });
+    const uploadedNames = applyResults(batch, response);
+    await removeReplacedDocuments(batch, uploadedNames, controller.signal);
+    completionListeners.forEach(listener => listener(response));
+  } catch (error) {
+    if (isCancelledRequest(error)) {
+      // Only the cancelled file stops; batch-mates go back in line
+      updateItems(ids, item => (
+        item.status === 'cancelled' ? {} : { status: 'pending', progress: 0, attempts: item.attempts - 1 }
+      ));
+    } else {
+      const message = error instanceof Error ? error.message : 'Failed to upload file';
+      const current = state.items.filter(item => ids.has(item.id));
+      const retryable = isTransient(error)
+        ? current.filter(item => item.attempts <= state.config.maxRetries)
+        : [];
+
+      retryable.forEach(item => scheduleRetry(item, message));
+      const failed = current.filter(item => !retryable.includes(item));
+      if (failed.length > 0) {
+        updateItems(new Set(failed.map(item => item.id)), () => ({ status: 'error', message }));
+        runSummary.failed += failed.length;
+      }
+    }
+  } finally {
+    batch.forEach(item => controllers.delete(item.id));
+    activeRequests--;
+    pump();
+  }
+}
+
+function scheduleRetry(item: UploadQueueItem, reason: string) {
+  const delay = retryDelay(item.attempts);
+  updateItems(new Set([item.id]), () => ({
+    status: 'retrying',
+    progress: 0,
+    message: `${reason} — retrying in ${Math.round(delay / 1000)}s (attempt ${item.attempts + 1} of ${state.config.maxRetries + 1})`,
+  }));
+  retryTimers.set(item.id, setTimeout(() => {
+    retryTimers.delete(item.id);
+    updateItems(new Set([item.id]), () => ({ status: 'pending' }));
+    pump();
+  }, delay));
+}
+
+function pump() {
+  while (activeRequests < state.config.concurrency) {
+    const batch = takeNextBatch();
+    if (batch.length === 0) break;
+    void sendBatch(batch);
+  }
+  finishIfDrained();
+}
+
+// Restore interrupted chunked uploads from previous page loads
+void resumableStore.list().then(records => {
+  const tracked = new Set(state.items.map(item => fingerprintFile(item.file)));
+  setState({ resumable: records.filter(r => !tracked.has(r.fingerprint)) });
+});
+
+// Client-side upload queue. Lives outside React so uploads keep running and
+// keep their state while the Upload tab is unmounted.
+
+export const uploadQueue = {
+  getState(): QueueState {
+    return state;
+  },
+
+  // Selected files wait in the list as 'idle' until start() is called
+  add(entries: UploadQueueEntry[]) {
+    const fingerprints = new Set<string>();
+    const added = entries.map<UploadQueueItem>(({ file, hash, replaces, relativePath, issues, metadata, labels }) => {
+      const fingerprint = fingerprintFile(file);
+      const record = state.resumable.find(r => r.fingerprint === fingerprint);
+      fingerprints.add(fingerprint);
+      return {
+        id: `upload-${++itemCounter}`,
+        file,
+        status: 'idle',
+        progress: record ? recordProgress(record) : 0,
+        attempts: 0,
+        resumable: shouldUploadInChunks(file),
+        hash,
+        replaces,
+        relativePath,
+        issues,
+        metadata,
+        labels,
+        message: record ? 'Will resume where the previous upload stopped' : undefined,
+      };
+    });
+    setState({
+      items: [...state.items, ...added],
+      resumable: state.resumable.filter(r => !fingerprints.has(r.fingerprint)),
+    });
+    return added;
+  },
+
+  // Add files and send them right away, leaving other selected files alone
+  submit(entries: UploadQueueEntry[]) {
+    const added = uploadQueue.add(entries);
+    updateItems(new Set(added.map(item => item.id)), () => ({ status: 'pending' }));
+    pump();
+    return added;
+  },
+
+  start() {
+    const ids = new Set(state.items
+      .filter(item => (item.status === 'idle' || item.status === 'error') && !hasBlockingIssues(item.issues))
+      .map(item => item.id));
+    if (ids.size > 0) {
+      updateItems(ids, () => ({ status: 'pending', progress: 0, attempts: 0, message: undefined }));
+    }
+    pump();
+  },
+
+  retry(id: string) {
+    if (hasBlockingIssues(state.items.find(item => item.id === id)?.issues)) return;
+    updateItems(new Set([id]), () => ({ status: 'pending', progress: 0, attempts: 0, message: undefined }));
+    pump();
+  },
+
+  cancel(id: string) {
+    const item = state.items.find(i => i.id === id);
+    if (!item || !['pending', 'uploading', 'retrying'].includes(item.status)) return;
+
+    const timer = retryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      retryTimers.delete(id);
+    }
+
+    updateItems(new Set([id]), () => ({ status: 'cancelled', progress: 0, message: 'Cancelled' }));
+    runSummary.cancelled++;
+    controllers.get(id)?.abort();
+    finishIfDrained();
+  },
+
+  remove(id: string) {
+    const item = state.items.find(i => i.id === id);
+    uploadQueue.cancel(id);
+    setState({ items: state.items.filter(i => i.id !== id) });
+    if (item?.resumable && item.status !== 'success') {
+      void resumableStore.get(fingerprintFile(item.file)).then(record => record && resumableStore.discard(record));
+    }
+  },
+
+  // Give up on an interrupted upload from an earlier session
+  discardResumable(fingerprint: string) {
+    const record = state.resumable.find(r => r.fingerprint === fingerprint);
+    setState({ resumable: state.resumable.filter(r => r.fingerprint !== fingerprint) });
+    if (record) void resumableStore.discard(record);
+  },
+
+  clearFinished() {
+    setState({ items: state.items.filter(item => item.status !== 'success') });
+  },
+
+  setConfig(config: Partial<UploadQueueConfig>) {
+    const next = { ...state.config, ...config };
+    localStorage.setItem(CONFIG_KEY, JSON.stringify(next));
+    setState({ config: next });
+    pump();
+  },
+
+  subscribe(listener: Listener) {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  // Fires after every successful request with the backend's response
+  onUploadComplete(listener: CompletionListener) {
+    completionListeners.add(listener);
+    return () => {
+      completionListeners.delete(listener);
+    };
+  },
+
+  // Fires once the queue has nothing left to send
+  onDrain(listener: DrainListener) {
+    drainListeners.add(listener);
+    return () => {
+      drainListeners.delete(listener);
+    };
+  },
+};
+
+export default uploadQueue;
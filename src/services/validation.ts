@@ -0,0 +1,126 @@
+import { getExtension, isAcceptedFile } from '../lib/fileTypes';
+import type { ValidationIssue } from '../types/upload';
+
+// Largest single document the backend is expected to accept
+export const MAX_UPLOAD_SIZE = 1024 * 1024 * 1024;
+
+// How much of the start and end of a file is read for sniffing
+const HEAD_BYTES = 8 * 1024;
+const TAIL_BYTES = 64 * 1024;
+
+type SniffedType = 'pdf' | 'png' | 'jpeg' | 'zip' | 'text' | 'unknown';
+
+// Content each extension must start with
+const EXPECTED_TYPE: Record<string, SniffedType> = {
+  '.pdf': 'pdf',
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.docx': 'zip',
+  '.pptx': 'zip',
+  '.txt': 'text',
+};
+
+const TYPE_LABELS: Record<SniffedType, string> = {
+  pdf: 'a PDF',
+  png: 'a PNG image',
+  jpeg: 'a JPEG image',
+  zip: 'an Office/ZIP document',
+  text: 'plain text',
+  unknown: 'an unrecognised format',
+};
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+function sniffType(head: Uint8Array): SniffedType {
+  if (startsWith(head, [0x25, 0x50, 0x44, 0x46, 0x2d])) return 'pdf';
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return 'zip';
+  // Text files have no NUL bytes; binary formats almost always do
+  if (!head.includes(0)) return 'text';
+  return 'unknown';
+}
+
+async function readBytes(file: File, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+function latin1(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+async function validatePdf(file: File, head: Uint8Array): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+  const tail = latin1(await readBytes(file, Math.max(0, file.size - TAIL_BYTES), file.size));
+
+  if (!tail.includes('%%EOF')) {
+    issues.push({
+      code: 'corrupt',
+      severity: 'error',
+      message: 'PDF has no end-of-file marker; it is probably truncated or corrupt',
+    });
+  }
+  // The encryption dictionary is referenced from the trailer, which sits at the
+  // end of the file (or near the start for linearized PDFs)
+  if (/\/Encrypt\s/.test(tail) || /\/Encrypt\s/.test(latin1(head))) {
+    issues.push({
+      code: 'encrypted',
+      severity: 'error',
+      message: 'PDF is password-protected or encrypted; its text cannot be extracted',
+    });
+  }
+  return issues;
+}
+
+// Checks that run entirely in the browser before a file is queued
+export async function validateFile(file: File): Promise<ValidationIssue[]> {
+  const issues: ValidationIssue[] = [];
+
+  if (!isAcceptedFile(file.name)) {
+    issues.push({ code: 'unsupported', severity: 'error', message: 'File type is not supported' });
+    return issues;
+  }
+  if (file.size === 0) {
+    issues.push({ code: 'empty', severity: 'error', message: 'File is empty' });
+    return issues;
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    issues.push({
+      code: 'too-large',
+      severity: 'error',
+      message: `File is larger than the ${Math.round(MAX_UPLOAD_SIZE / (1024 * 1024))} MB limit`,
+    });
+  }
+
+  let head: Uint8Array;
+  try {
+    head = await readBytes(file, 0, HEAD_BYTES);
+  } catch {
+    issues.push({ code: 'unreadable', severity: 'error', message: 'File could not be read' });
+    return issues;
+  }
+
+  const expected = EXPECTED_TYPE[getExtension(file.name)];
+  const actual = sniffType(head);
+  if (expected && actual !== expected) {
+    issues.push({
+      code: 'mismatch',
+      // UTF-16 text legitimately contains NUL bytes, so only warn for .txt
+      severity: expected === 'text' ? 'warning' : 'error',
+      message: `Extension says ${TYPE_LABELS[expected]} but the contents look like ${TYPE_LABELS[actual]}`,
+    });
+    if (expected !== 'text') return issues;
+  }
+
+  if (actual === 'pdf') {
+    issues.push(...await validatePdf(file, head));
+  }
+  return issues;
+}
+
+export function hasBlockingIssues(issues: ValidationIssue[] | undefined): boolean {
+  return Boolean(issues?.some(issue => issue.severity === 'error'));
+}
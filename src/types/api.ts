@@ -1,69 +1,420 @@
+import { z } from 'zod';
+
+// Request types are plain interfaces. Response types are inferred from the zod
+// schemas apiService parses every response with (parseResponse in
+// services/api.ts), so the two cannot drift apart.
+export type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// FastAPI serializes unset optional fields as null; the types leave them out
+const optional = <T extends z.ZodTypeAny>(schema: T) => (
+  schema.nullish().transform(value => value ?? undefined)
+);
+
+// Restricts a query to part of the library; omitted fields do not filter and
+// the fields that are present must all match
+export interface QueryFilters {
+  // Document names as listed by GET /documents
+  names?: string[];
+  // Lower-case extensions including the dot, e.g. [".pdf", ".docx"]
+  extensions?: string[];
+  // Inclusive upload date range as calendar dates (YYYY-MM-DD)
+  uploaded_from?: string;
+  uploaded_to?: string;
+}
+
 export interface QueryRequest {
   query: string;
   action: 'search' | 'explore' | 'think' | 'ppt';
   threshold?: number;
+  // Upper bound on the number of results; omitted leaves it to the backend
+  max_results?: number;
   translate_to?: string;
+  filters?: QueryFilters;
+  // Earlier turns of a Think conversation, oldest first; other actions ignore it
+  conversation?: ConversationContextTurn[];
 }
 
-export interface TranslationInfo {
-  target_language: string;
-  target_language_name: string;
-  source_language: string;
-  translated: boolean;
+// One previous question and answer, with the passages the answer was based on
+export interface ConversationContextTurn {
+  question: string;
+  answer: string;
+  citations: Array<{ source: string; excerpt: string }>;
+}
+
+// Result tuning chosen in the advanced options panel
+export interface QueryOptions {
+  threshold: number;
+  max_results?: number;
+}
+
+export const translationSchema = z.object({
+  target_language: z.string(),
+  target_language_name: z.string(),
+  source_language: z.string(),
+  translated: z.boolean(),
+});
+
+export type TranslationInfo = z.infer<typeof translationSchema>;
+
+// Per-result details; backends may add their own fields, which are kept
+export const queryResultMetadataSchema = z.object({
+  document_name: optional(z.string()),
+  best_sentence: optional(z.string()),
+  score: optional(z.number()),
+  summary: optional(z.string()),
+  web_content: optional(z.string()),
+  refined_insight: optional(z.string()),
+  // PPT specific fields
+  ppt_path: optional(z.string()),
+  file_name: optional(z.string()),
+  action_type: optional(z.string()),
+}).passthrough();
+
+export type QueryResultMetadata = z.infer<typeof queryResultMetadataSchema>;
+
+// Query results arrive in several backend-specific shapes and are normalized
+// into QueryResult in api.ts
+export const rawQueryResultSchema = z.object({
+  content: optional(z.string()),
+  summary: optional(z.string()),
+  best_sentence: optional(z.string()),
+  refined_insight: optional(z.string()),
+  web_content: optional(z.string()),
+  document_name: optional(z.string()),
+  source: optional(z.string()),
+  similarity: optional(z.number()),
+  score: optional(z.number()),
+  ppt_path: optional(z.string()),
+  file_name: optional(z.string()),
+  action_type: optional(z.string()),
+  metadata: optional(queryResultMetadataSchema),
+});
+
+export type RawQueryResult = z.infer<typeof rawQueryResultSchema>;
+
+export const rawQueryResponseSchema = z.object({
+  success: z.boolean(),
+  message: optional(z.string()),
+  results: z.array(rawQueryResultSchema),
+  action: optional(z.string()),
+  action_type: optional(z.string()),
+  timestamp: optional(z.string()),
+  query: optional(z.string()),
+  translation: optional(translationSchema),
+});
+
+export interface QueryResult {
+  content: string;
+  metadata: QueryResultMetadata;
+  similarity?: number;
+  source?: string;
 }
 
 export interface QueryResponse {
   success: boolean;
   message: string;
-  results: Array<{
-    content?: string;
-    metadata?: any;
-    similarity?: number;
-    source?: string;
-    [key: string]: any;
-  }>;
+  results: QueryResult[];
   action: string;
   timestamp: string;
   query: string;
   translation?: TranslationInfo;
+  // Filters the query ran with; attached client-side, not returned by the backend
+  scope?: QueryScope;
 }
 
-export interface UploadResponse {
-  success: boolean;
-  message: string;
-  uploaded_files: Array<{
-    filename: string;
-    status: string;
-    message?: string;
-    error?: string;
-  }>;
-  timestamp: string;
+export interface QueryScope {
+  filters: QueryFilters;
+  // Library documents the filters matched when the query was sent
+  documents: string[];
 }
 
-export interface DocumentInfo {
-  name: string;
-  content_length: number;
-  upload_date: string;
+// Progress stages reported by POST /query/stream
+export type QueryStage = 'retrieving' | 'summarizing' | 'translating' | 'building_slides';
+
+// POST /query/stream takes a QueryRequest and answers with server-sent events:
+//   event: stage   data: { stage }
+//   event: result  data: { index, result }  one result, in the same shape as /query
+//   event: token   data: { index, text }    the next piece of that result's refined_insight
+//   event: done    data: the complete response, in the same shape as /query
+//   event: error   data: { message }
+// These are the stage, result and token events after normalization.
+export type QueryStreamEvent =
+  | { type: 'stage'; stage: QueryStage }
+  | { type: 'result'; index: number; result: QueryResult }
+  | { type: 'token'; index: number; text: string };
+
+// Data of the stage, result, token and error events. Newer backends may report
+// stages this app does not know; those are ignored.
+export const streamStageSchema = z.object({
+  stage: z.string(),
+});
+
+export const streamResultSchema = z.object({
+  index: z.number().int().nonnegative(),
+  result: rawQueryResultSchema,
+});
+
+export const streamTokenSchema = z.object({
+  index: z.number().int().nonnegative(),
+  text: optional(z.string()),
+});
+
+export const streamErrorSchema = z.object({
+  message: optional(z.string()),
+});
+
+export const uploadedFileResultSchema = z.object({
+  filename: z.string(),
+  status: z.string(),
+  message: optional(z.string()),
+  error: optional(z.string()),
+});
+
+export type UploadedFileResult = z.infer<typeof uploadedFileResultSchema>;
+
+export const uploadResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  uploaded_files: z.array(uploadedFileResultSchema),
+  timestamp: z.string(),
+});
+
+export type UploadResponse = z.infer<typeof uploadResponseSchema>;
+
+// Byte-level progress reported while a multipart upload is in flight
+export interface UploadProgress {
+  loaded: number;
+  total: number;
 }
 
-export interface DocumentsResponse {
-  total_documents: number;
-  documents: DocumentInfo[];
-  clusters: number;
-  timestamp: string;
+export interface UploadRequestOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  // SHA-256 hex digests, sent as one `hashes` form field per file in the same order
+  hashes?: Array<string | undefined>;
+  // Source-tree paths, sent as one `paths` form field per file in the same order
+  paths?: Array<string | undefined>;
+  // Source metadata, sent as one JSON `metadata` form field per file in the same order
+  metadata?: Array<DocumentSourceMetadata | undefined>;
 }
 
-export interface HealthResponse {
-  status: string;
-  has_documents: boolean;
-  has_embeddings: boolean;
-  has_search_engine: boolean;
-  document_count: number;
-  timestamp: string;
+// Where a document came from, stored alongside it by the backend
+export interface DocumentSourceMetadata {
+  title?: string;
+  source_type: 'upload' | 'paste' | 'url';
+  // Free-form origin for pasted text ("Email from legal"), or the imported URL
+  source?: string;
 }
 
-export interface SupportedLanguagesResponse {
-  languages: Record<string, string>;
-  default: string;
-  note: string;
-}
\ No newline at end of file
+export interface UrlImportRequest {
+  url: string;
+  title?: string;
+}
+
+/*
+ * Resumable chunked upload protocol
+ *
+ *   POST   /upload/chunked/init                 ChunkedUploadInitRequest -> ChunkedUploadSession
+ *   GET    /upload/chunked/{upload_id}          -> ChunkedUploadSession (404 once expired)
+ *   PUT    /upload/chunked/{upload_id}/{index}  raw chunk bytes (application/octet-stream) -> ChunkUploadResponse
+ *   POST   /upload/chunked/{upload_id}/complete -> UploadResponse (same shape as POST /upload)
+ *   DELETE /upload/chunked/{upload_id}          discard the session and any stored chunks
+ *
+ * Chunk `index` is zero-based; chunk i covers bytes [i * chunk_size, (i + 1) * chunk_size).
+ * Re-sending a chunk that was already received must be accepted and overwrite it.
+ * The server may lower `chunk_size` in its init response; clients must use the returned value.
+ */
+export interface ChunkedUploadInitRequest {
+  filename: string;
+  size: number;
+  mime_type: string;
+  chunk_size: number;
+  fingerprint: string;
+  content_hash?: string;
+  relative_path?: string;
+  metadata?: DocumentSourceMetadata;
+}
+
+export const chunkedUploadSessionSchema = z.object({
+  upload_id: z.string(),
+  chunk_size: z.number().int().positive(),
+  total_chunks: z.number().int().nonnegative(),
+  received_chunks: z.array(z.number().int().nonnegative()),
+});
+
+export type ChunkedUploadSession = z.infer<typeof chunkedUploadSessionSchema>;
+
+export const chunkUploadResponseSchema = z.object({
+  upload_id: z.string(),
+  index: z.number().int().nonnegative(),
+  received: z.boolean(),
+});
+
+export type ChunkUploadResponse = z.infer<typeof chunkUploadResponseSchema>;
+
+const documentInfoShape = {
+  name: z.string(),
+  content_length: z.number(),
+  upload_date: z.string(),
+  // SHA-256 hex digest of the original file, when the backend recorded one
+  content_hash: optional(z.string()),
+  // Folder path the document was ingested from, e.g. "bundle/reports/q1.pdf"
+  relative_path: optional(z.string()),
+  title: optional(z.string()),
+  source_type: optional(z.enum(['upload', 'paste', 'url'])),
+  source: optional(z.string()),
+};
+
+export const documentInfoSchema = z.object(documentInfoShape);
+
+export type DocumentInfo = z.infer<typeof documentInfoSchema>;
+
+export const documentChunkSchema = z.object({
+  index: z.number(),
+  content: z.string(),
+  // 1-based page the chunk starts on, for paginated formats
+  page: optional(z.number()),
+});
+
+export type DocumentChunk = z.infer<typeof documentChunkSchema>;
+
+// GET /documents/{name}; the original file is served from GET /documents/{name}/file
+export const documentDetailSchema = z.object({
+  ...documentInfoShape,
+  text: z.string(),
+  page_count: optional(z.number()),
+  // Cluster id from the library clustering, null when the document is unclustered
+  cluster: z.number().nullish(),
+  chunks: z.array(documentChunkSchema),
+});
+
+export type DocumentDetail = z.infer<typeof documentDetailSchema>;
+
+export const deleteDocumentSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  deleted: z.array(z.string()),
+});
+
+export type DeleteDocumentResponse = z.infer<typeof deleteDocumentSchema>;
+
+export interface BulkDocumentRequest {
+  names: string[];
+}
+
+export const bulkDocumentResultSchema = z.object({
+  name: z.string(),
+  success: z.boolean(),
+  error: optional(z.string()),
+});
+
+export type BulkDocumentResult = z.infer<typeof bulkDocumentResultSchema>;
+
+// Returned by bulk delete and bulk reindex; one result per requested name
+export const bulkDocumentSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+  results: z.array(bulkDocumentResultSchema),
+  timestamp: z.string(),
+});
+
+export type BulkDocumentResponse = z.infer<typeof bulkDocumentSchema>;
+
+export const documentsResponseSchema = z.object({
+  total_documents: z.number(),
+  documents: z.array(documentInfoSchema),
+  clusters: z.number(),
+  timestamp: z.string(),
+});
+
+export type DocumentsResponse = z.infer<typeof documentsResponseSchema>;
+
+export const clusterTermSchema = z.object({
+  term: z.string(),
+  // Relative importance within the cluster, higher is more characteristic
+  weight: z.number(),
+});
+
+export type ClusterTerm = z.infer<typeof clusterTermSchema>;
+
+export const clusterInfoSchema = z.object({
+  id: z.number(),
+  // Optional human-readable name; clients fall back to the top terms
+  label: optional(z.string()),
+  size: z.number(),
+  // Document names as listed by GET /documents
+  documents: z.array(z.string()),
+  top_terms: z.array(clusterTermSchema),
+});
+
+export type ClusterInfo = z.infer<typeof clusterInfoSchema>;
+
+export const clustersSchema = z.object({
+  clusters: z.array(clusterInfoSchema),
+  timestamp: z.string(),
+});
+
+export type ClustersResponse = z.infer<typeof clustersSchema>;
+
+// Queries per action for one calendar day (YYYY-MM-DD)
+export const queryVolumeDaySchema = z.object({
+  date: z.string(),
+  search: z.number(),
+  explore: z.number(),
+  think: z.number(),
+  ppt: z.number(),
+});
+
+export type QueryVolumeDay = z.infer<typeof queryVolumeDaySchema>;
+
+// GET /analytics/queries?days=N; days with no queries may be omitted
+export const queryVolumeSchema = z.object({
+  days: z.array(queryVolumeDaySchema),
+  total: z.number(),
+  timestamp: z.string(),
+});
+
+export type QueryVolumeResponse = z.infer<typeof queryVolumeSchema>;
+
+export const healthSchema = z.object({
+  status: z.string(),
+  has_documents: z.boolean(),
+  has_embeddings: z.boolean(),
+  has_search_engine: z.boolean(),
+  document_count: z.number(),
+  timestamp: z.string(),
+});
+
+export type HealthResponse = z.infer<typeof healthSchema>;
+
+// GET /status reports backend-specific processing details, so only its shape
+// as an object is checked
+export const statusSchema = z.record(z.unknown());
+
+export type StatusResponse = z.infer<typeof statusSchema>;
+
+export const supportedLanguagesSchema = z.object({
+  languages: z.record(z.string()),
+  default: z.string(),
+  note: z.string(),
+});
+
+export type SupportedLanguagesResponse = z.infer<typeof supportedLanguagesSchema>;
+
+// POST /documents/reload, DELETE /reset and DELETE /upload/chunked/{upload_id}
+// only acknowledge the request; an empty body is accepted as well
+export const acknowledgementSchema = z.preprocess(
+  value => (value === '' || value == null ? {} : value),
+  z.object({
+    success: optional(z.boolean()),
+    message: optional(z.string()),
+  }),
+);
+
+export type Acknowledgement = z.infer<typeof acknowledgementSchema>;
+
+export interface BackendProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+}
@@ -0,0 +1,36 @@
+import type { QueryFilters, QueryResponse } from './api';
+
+// A passage an answer drew on, numbered in the order it is shown
+export interface Citation {
+  source: string;
+  excerpt: string;
+  similarity?: number;
+}
+
+export interface ConversationTurn {
+  id: string;
+  // The turn this one follows up on; null for the opening question.
+  // Several turns with the same parent are alternative branches.
+  parent_id: string | null;
+  question: string;
+  answer: string;
+  citations: Citation[];
+  response: QueryResponse;
+  created_at: string;
+}
+
+// A Think conversation, stored in IndexedDB. Turns form a tree and the
+// thread on screen is the path from the root to `active_leaf_id`.
+export interface Conversation {
+  id: string;
+  title: string;
+  turns: ConversationTurn[];
+  active_leaf_id: string;
+  // Settings of the opening query, reused for every follow-up
+  filters?: QueryFilters;
+  threshold?: number;
+  max_results?: number;
+  translate_to?: string;
+  created_at: string;
+  updated_at: string;
+}
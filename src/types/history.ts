@@ -0,0 +1,26 @@
+import type { QueryRequest, QueryResponse } from './api';
+
+// One executed query, stored in IndexedDB with its full response
+export interface SearchHistoryEntry {
+  id: string;
+  // Backend profile the query ran against
+  profile_id: string;
+  request: QueryRequest;
+  response: QueryResponse;
+  created_at: string;
+}
+
+export interface ResultScoreChange {
+  key: string;
+  title: string;
+  before: number;
+  after: number;
+}
+
+// How a query's results moved between two runs; results are matched by source and content
+export interface ResultDiff {
+  appeared: QueryResponse['results'];
+  disappeared: QueryResponse['results'];
+  changed: ResultScoreChange[];
+  unchanged: number;
+}
@@ -0,0 +1,21 @@
+// Tags and collections are kept in the browser, per backend profile; the
+// backend only ever sees the document names they resolve to
+
+export interface DocumentCollection {
+  id: string;
+  name: string;
+  // Document names as listed by GET /documents
+  documents: string[];
+}
+
+// Tags and collection ids to give a document once it has been uploaded
+export interface DocumentLabels {
+  tags: string[];
+  collections: string[];
+}
+
+export interface LibraryOrganization {
+  // Tags keyed by document name
+  tags: Record<string, string[]>;
+  collections: DocumentCollection[];
+}
@@ -0,0 +1,16 @@
+import type { QueryRequest } from './api';
+
+// A reusable query. `query` may contain {placeholders} that are filled in
+// each time the search is run, which makes it a template.
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  action: QueryRequest['action'];
+  threshold: number;
+  translate_to: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'query' | 'action' | 'threshold' | 'translate_to'>;
@@ -0,0 +1,100 @@
+import type { DocumentSourceMetadata } from './api';
+import type { DocumentLabels } from './library';
+
+// 'idle' items are selected but not yet submitted
+export type UploadStatus = 'idle' | 'pending' | 'uploading' | 'retrying' | 'success' | 'error' | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  progress: number;
+  attempts: number;
+  message?: string;
+  // Set when the file is sent through the resumable chunked protocol
+  resumable?: boolean;
+  // SHA-256 of the file contents, when it could be computed
+  hash?: string;
+  // Library document to delete once this file is uploaded
+  replaces?: string;
+  // Why the replaced document is still in the library after a successful upload
+  replaceError?: string;
+  // Path inside the dropped folder or archive, stored as document metadata
+  relativePath?: string;
+  // Problems found before upload; items with errors are never sent
+  issues?: ValidationIssue[];
+  metadata?: DocumentSourceMetadata;
+  // Tags and collections applied locally once the upload succeeds
+  labels?: DocumentLabels;
+}
+
+export interface UploadQueueEntry {
+  file: File;
+  hash?: string;
+  replaces?: string;
+  relativePath?: string;
+  issues?: ValidationIssue[];
+  metadata?: DocumentSourceMetadata;
+  labels?: DocumentLabels;
+}
+
+export type ValidationIssueCode =
+  | 'unsupported'
+  | 'empty'
+  | 'too-large'
+  | 'unreadable'
+  | 'mismatch'
+  | 'corrupt'
+  | 'encrypted';
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export type DuplicateResolution = 'skip' | 'replace' | 'keep';
+
+export interface DuplicateMatch {
+  file: File;
+  hash: string;
+  // Where the same content was already seen
+  source: 'library' | 'queue';
+  existingName: string;
+  // Queue item id, when the duplicate is an earlier pick
+  existingId?: string;
+}
+
+export interface UploadQueueConfig {
+  // Number of upload requests allowed in flight at once
+  concurrency: number;
+  // Number of files sent together in one multipart request
+  batchSize: number;
+  // Retries for transient failures (network, timeout, 408, 429, 502-504)
+  maxRetries: number;
+}
+
+export interface UploadQueueSummary {
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+}
+
+// Progress of a chunked upload, persisted in IndexedDB so it survives reloads.
+// The file contents are not stored; the user re-selects the file to resume.
+export interface ResumableUploadRecord {
+  fingerprint: string;
+  upload_id: string;
+  filename: string;
+  size: number;
+  mime_type: string;
+  last_modified: number;
+  chunk_size: number;
+  total_chunks: number;
+  uploaded_chunks: number[];
+  // What the session was opened with, so a resumed upload sends the same details
+  content_hash?: string;
+  relative_path?: string;
+  metadata?: DocumentSourceMetadata;
+  updated_at: string;
+}